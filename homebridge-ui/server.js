@@ -5,38 +5,73 @@
  * than from the browser so that the token stays on the Homebridge host and
  * never travels through the settings page.
  *
- * Two routes are exposed:
+ * Six routes are exposed:
  * - /verify-credentials  Validates an ID + token pair via GET /link.
  *                        Does NOT send a notification. Returns the device or
  *                        group name so the user can confirm they targeted the
- *                        right thing.
- * - /test-webhook        Sends a real notification via POST /notify-json/{id}.
+ *                        right thing. Verify all calls it once per pair.
+ * - /test-webhook        Sends a real notification through the webhook's
+ *                        delivery provider (the Notify API by default).
  *                        This is the only way to prove delivery end to end.
+ * - /history             Reads the plugin's delivery history file, filtered
+ *                        by webhook and outcome. Makes no API call.
+ * - /validate-config     Runs the plugin's own format checks over the
+ *                        webhooks being edited, and optionally the checks
+ *                        that decide whether each is set up at all.
+ *                        Makes no API call.
+ * - /export-webhooks     Renders the webhooks as a JSON or CSV file.
+ * - /preview-import      Parses a JSON or CSV file and merges it into the
+ *                        webhooks being edited, describing every change.
+ *                        Nothing is saved; the page applies the result.
+ *
+ * The live notification preview is drawn by the page alone, from the form,
+ * and makes no request here at all.
  */
 
 const { HomebridgePluginUiServer } = require('@homebridge/plugin-ui-utils');
-const https = require('https');
-const { URL } = require('url');
 
 /**
- * Base URL comes from the compiled plugin settings so that this server and
- * the running plugin can never disagree about which host they call. There is
- * deliberately no fallback literal here: a second copy of the hostname is the
- * exact failure this import exists to prevent.
+ * The Notify API client, the template renderer, the message variants, the
+ * delivery providers, the proxy handling, the config checks and the error
+ * wording all come from
+ * the compiled plugin, so that this server and the running plugin can never
+ * disagree about which host they call, how a message is rendered, how it is
+ * sent, what counts as a config problem or how a failure is described.
+ * There is deliberately no fallback copy of any of them here: a second copy
+ * is the exact failure this import exists to prevent.
  */
-let NOTIFY_API_BASE_URL = null;
-let baseUrlError = null;
+let NotifyApiClient = null;
+let buildNotifyPayload = null;
+let normalizeApiBaseUrl = null;
+let NetworkTransport = null;
+let renderTemplateFields = null;
+let readHistory = null;
+let getProvider = null;
+let describeError = null;
+let errorCategory = null;
+let validateWebhook = null;
+let StartupChecks = null;
+let usableVariants = null;
+let withVariant = null;
+let distLoadError = null;
 try {
-  ({ NOTIFY_API_BASE_URL } = require('../dist/settings.js'));
+  ({ NotifyApiClient, buildNotifyPayload, normalizeApiBaseUrl } = require('../dist/notifyApi.js'));
+  ({ renderTemplateFields } = require('../dist/template.js'));
+  ({ readHistory } = require('../dist/history.js'));
+  ({ getProvider } = require('../dist/providers/index.js'));
+  ({ NetworkTransport } = require('../dist/network.js'));
+  ({ describeError, errorCategory } = require('../dist/errors.js'));
+  ({ validateWebhook, StartupChecks } = require('../dist/validation.js'));
+  ({ usableVariants, withVariant } = require('../dist/variants.js'));
 } catch (error) {
   /**
    * Record the failure rather than throwing. Throwing here would run before
    * the server is constructed, so ready() would never be called and the whole
-   * settings screen would stay blank. Failing just the two API routes leaves
-   * the configuration form usable.
+   * settings screen would stay blank. Failing just the routes leaves the
+   * configuration form usable.
    */
-  baseUrlError =
-    'Could not load the compiled plugin settings from ../dist/settings.js. ' +
+  distLoadError =
+    'Could not load the compiled plugin modules from ../dist/. ' +
     'If you are running from source, run "npm run build" first. ' +
     `Original error: ${error.message}`;
 }
@@ -50,7 +85,28 @@ try {
 const VERIFY_RATE_LIMIT = 5;              // calls allowed per window
 const VERIFY_RATE_WINDOW_MS = 60 * 1000;  // rolling window
 const VERIFY_CACHE_TTL_MS = 5 * 60 * 1000;
-const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * The webhook fields the settings form knows, in form order, with their
+ * JSON types. Sets the column order of a CSV export and tells a CSV import
+ * how to read each cell back, so "12345678" stays an ID while "60" becomes
+ * a number of seconds.
+ */
+const WEBHOOK_FIELDS = require('../config.schema.json').schema.properties.webhooks.items.properties;
+
+/**
+ * Webhook fields holding a credential. An export leaves them out unless
+ * asked, and an import that lacks them keeps the ones already configured.
+ * Recipients' tokens are treated the same way.
+ */
+const TOKEN_FIELDS = ['token', 'escalateToken'];
+
+/**
+ * How a CSV cell starts when a spreadsheet would run it as a formula, or
+ * when it only looks guarded: apostrophes already in front of one. Those
+ * are guarded too, so the import's unguarding cannot eat a real one.
+ */
+const FORMULA_START = /^'*[=+\-@\t\r]/;
 
 class NotifyWebhooksUiServer extends HomebridgePluginUiServer {
   constructor() {
@@ -64,6 +120,10 @@ class NotifyWebhooksUiServer extends HomebridgePluginUiServer {
 
     this.onRequest('/verify-credentials', this.verifyCredentials.bind(this));
     this.onRequest('/test-webhook', this.testWebhook.bind(this));
+    this.onRequest('/history', this.history.bind(this));
+    this.onRequest('/validate-config', this.validateConfig.bind(this));
+    this.onRequest('/export-webhooks', this.exportWebhooks.bind(this));
+    this.onRequest('/preview-import', this.previewImport.bind(this));
 
     this.ready();
   }
@@ -83,324 +143,729 @@ class NotifyWebhooksUiServer extends HomebridgePluginUiServer {
    * @param {Object} payload
    * @param {string} payload.id - Device or Group ID
    * @param {string} payload.token - Matching token
+   * @param {string} [payload.apiBaseUrl] - The platform's API and network
+   *   settings, as taken by contextFor()
    * @returns {Promise<Object>} Result describing the target, or an error
+   *   with its category from dist/errors.js. When this server's own limit
+   *   is what refused it, retryAfterMs says when to try again, which is
+   *   how the page's Verify all paces itself.
    */
   async verifyCredentials(payload) {
     try {
-      if (baseUrlError) {
-        return { success: false, error: baseUrlError };
+      if (distLoadError) {
+        return { success: false, error: distLoadError };
       }
 
       if (!payload || !payload.id || !payload.token) {
         return { success: false, error: 'ID and Token are both required' };
       }
 
-      const cacheKey = `${payload.id} ${payload.token}`;
+      const { notifyApi } = this.contextFor(payload);
+      // A different route to the API can answer differently, so it is part of the key
+      const cacheKey = JSON.stringify([
+        payload.apiBaseUrl, payload.proxyUrl, payload.noProxy, payload.caFile, payload.id, payload.token,
+      ]);
       const cached = this.verifyCache.get(cacheKey);
       if (cached && cached.expires > Date.now()) {
         return Object.assign({}, cached.result, { cached: true });
       }
 
-      if (!this.consumeVerifyBudget()) {
+      const retryAfterMs = this.consumeVerifyBudget();
+      if (retryAfterMs > 0) {
         return {
           success: false,
+          category: 'rate-limited',
+          retryAfterMs,
           error: 'Too many verification attempts. Wait a minute and try again.',
         };
       }
 
-      const url = new URL('/link', NOTIFY_API_BASE_URL);
-      url.searchParams.set('id', payload.id);
-      url.searchParams.set('token', payload.token);
+      const target = await notifyApi.link(payload.id, payload.token);
+      const result = {
+        success: true,
+        type: target.type,
+        name: target.name,
+        detail: target.detail,
+        memberCount: target.memberCount,
+      };
+      this.verifyCache.set(cacheKey, { result, expires: Date.now() + VERIFY_CACHE_TTL_MS });
+      return result;
+    } catch (error) {
+      return { success: false, category: errorCategory(error), error: this.describeFailure(error) };
+    }
+  }
 
-      const response = await this.apiRequest({ method: 'GET', url });
+  /**
+   * Send a real test notification through the webhook's provider.
+   *
+   * @param {Object} payload - Webhook configuration from the UI
+   * @param {number} [payload.variantIndex] - Which of the webhook's
+   *   variants to send, counted from 0 and wrapping around
+   * @returns {Promise<Object>} Success message, or an error
+   */
+  async testWebhook(payload) {
+    try {
+      if (distLoadError) {
+        return { success: false, error: distLoadError };
+      }
 
-      if (response.statusCode === 200 && response.data && response.data.success) {
-        const result = this.describeLinkTarget(response.data);
-        this.verifyCache.set(cacheKey, { result, expires: Date.now() + VERIFY_CACHE_TTL_MS });
-        return result;
+      const variants = payload ? usableVariants(payload.variants) : [];
+      if (!payload || !(payload.text || payload.onText || variants.some(variant => variant.text))) {
+        return { success: false, error: 'Missing required field: text is required' };
       }
 
-      if (response.statusCode === 429) {
-        return {
-          success: false,
-          error: 'The Notify API is rate limiting this address. Wait a minute and try again.',
-        };
+      const provider = getProvider(payload.provider);
+      if (!provider) {
+        return { success: false, error: `Unknown provider "${payload.provider}"` };
       }
 
-      if (response.statusCode === 404) {
+      // Same per-provider requirements the plugin checks at startup
+      if (provider.requires.token && !payload.token) {
+        return { success: false, error: `Token is required (the ${provider.labels.token})` };
+      }
+
+      if (provider.requires.id && !payload.id) {
+        return { success: false, error: `ID is required (the ${provider.labels.id})` };
+      }
+
+      if (provider.requires.url && !payload.providerUrl) {
+        return { success: false, error: 'Provider URL is required' };
+      }
+
+      /**
+       * Render placeholders with the plugin's own renderer. The Test button
+       * has no trigger history of its own, so {{triggerCount}} shows as 1,
+       * which is what a brand new switch would send on its first trigger.
+       */
+      // Timed and stateful switches send their "on" message when turned on.
+      const source = Object.assign({}, payload);
+      if (payload.mode === 'timed' || payload.mode === 'stateful') {
+        source.text = payload.onText || payload.text;
+        source.title = payload.onTitle || payload.title;
+      }
+
+      /**
+       * A webhook with variants sends the one the page asks for. The page
+       * counts its Test clicks, so pressing Test again shows the next
+       * variant rather than a random draw that might repeat.
+       */
+      let variantNote = '';
+      if (variants.length > 0) {
+        const position = Math.floor(Number(payload.variantIndex)) || 0;
+        const index = ((position % variants.length) + variants.length) % variants.length;
+        Object.assign(source, withVariant(source, variants[index]));
+        variantNote = ` (variant ${index + 1} of ${variants.length})`;
+      }
+
+      const webhook = renderTemplateFields(source, {
+        name: payload.name || '',
+        triggerCount: 1,
+        now: new Date(),
+      });
+
+      // The plugin's own payload builder, so the fields match the switch's
+      const apiPayload = buildNotifyPayload(webhook);
+
+      /**
+       * Send through the webhook's provider, the same code the switch uses,
+       * so the Test button proves the exact request a trigger would make.
+       */
+      const context = this.contextFor(payload);
+      const result = await provider.send(apiPayload, { id: payload.id, token: payload.token }, payload, context);
+
+      // A group send with partial failures still succeeds at the HTTP level.
+      if (typeof result.failureCount === 'number' && result.failureCount > 0) {
+        const sent = typeof result.successCount === 'number' ? result.successCount : 0;
+        const total = typeof result.deviceCount === 'number' ? result.deviceCount : '?';
         return {
           success: false,
-          error: 'No device or group matches that ID and token combination.',
+          error: `Sent to ${sent} of ${total} devices. ${result.failureCount} failed.`,
         };
       }
 
-      return { success: false, error: this.describeApiError(response) };
+      return { success: true, message: `Notification sent successfully!${variantNote}` };
     } catch (error) {
-      return { success: false, error: error.message };
+      // Token-free, and the same wording the Homebridge log would show
+      return { success: false, error: this.describeFailure(error) };
     }
   }
 
   /**
-   * Turn a successful /link response into something worth showing a user.
+   * Read the delivery history the plugin records for every send attempt.
    *
-   * Surfacing the name is the whole point: an 8-character ID is meaningless
-   * on its own, and seeing "iPhone Air" is what confirms the right target.
+   * The file is parsed by the plugin's own reader (dist/history.js), so the
+   * format is defined in one place. Entries never contain a token.
    *
-   * Two response shapes are accepted. The live API returns the target's
-   * fields flat on the response body:
-   *   { success, type: "device", id, name, platform, os_version, ... }
-   * while the published documentation shows them nested under a "device" or
-   * "group" key. Reading both means this keeps working either way.
+   * @param {Object} payload
+   * @param {string} [payload.webhook] - Only this webhook, by identity: its
+   *   key, or its name when it has none
+   * @param {string} [payload.outcome] - Only 'sent', 'partial' or 'failed'
+   * @param {number} [payload.limit] - Maximum entries, newest first
+   * @returns {Promise<Object>} The matching entries, or an error
    */
-  describeLinkTarget(data) {
-    if (data.type === 'group') {
-      const group = data.group || data;
-      const memberCount = group.member_count;
-      const plural = memberCount === 1 ? '' : 's';
-      return {
-        success: true,
-        type: 'group',
-        name: group.name || group.id || 'Group',
-        detail: typeof memberCount === 'number'
-          ? `Group with ${memberCount} device${plural}`
-          : 'Group',
-      };
-    }
+  async history(payload) {
+    try {
+      if (distLoadError) {
+        return { success: false, error: distLoadError };
+      }
 
-    const device = data.device || data;
-    if (device.name || device.id) {
-      const platform = [device.platform, device.os_version].filter(Boolean).join(' ');
-      return {
-        success: true,
-        type: 'device',
-        name: device.name || device.id,
-        detail: platform ? `Device running ${platform}` : 'Device',
-      };
-    }
+      const query = payload || {};
+      const entries = readHistory(this.homebridgeStoragePath, {
+        webhook: query.webhook || undefined,
+        outcome: query.outcome || undefined,
+        limit: query.limit,
+      });
 
-    return { success: true, type: data.type || 'unknown', name: 'Verified', detail: '' };
+      return { success: true, entries };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
   }
 
   /**
-   * Send a real test notification through POST /notify-json/{id}.
+   * Check the webhooks being edited, before they are saved.
    *
-   * @param {Object} payload - Webhook configuration from the UI
-   * @returns {Promise<Object>} Success message, or an error
+   * Credential profiles are applied by the plugin's own StartupChecks, as
+   * at startup, so an ID that comes from a profile is checked too.
+   *
+   * @param {Object} payload
+   * @param {Object[]} payload.webhooks - Every webhook, in config order
+   * @param {Object[]} [payload.profiles] - The platform's credential profiles
+   * @param {boolean} [payload.setup] - Also report, as problem, why the
+   *   plugin would skip a webhook at startup or leave its switch inert
+   * @returns {Promise<Object>} The webhooks with findings, by index, each
+   *   with its diagnostics from dist/validation.js
    */
-  async testWebhook(payload) {
+  async validateConfig(payload) {
     try {
-      if (baseUrlError) {
-        return { success: false, error: baseUrlError };
+      if (distLoadError) {
+        return { success: false, error: distLoadError };
       }
 
-      if (!payload || !payload.token || !payload.text) {
-        return {
-          success: false,
-          error: 'Missing required fields: token and text are required',
-        };
-      }
+      const webhooks = payload && Array.isArray(payload.webhooks) ? payload.webhooks : [];
+      const checks = new StartupChecks(payload.profiles);
+      const results = [];
+      webhooks.forEach((webhook, index) => {
+        if (!webhook) {
+          return;
+        }
 
-      if (!payload.id) {
-        return { success: false, error: 'ID is required' };
-      }
+        const verdict = checks.check(webhook);
+        const diagnostics = validateWebhook(verdict.webhook || webhook);
+        const problem = payload.setup ? verdict.problem : undefined;
+        if (diagnostics.length > 0 || problem) {
+          results.push({ index, name: webhook.name, diagnostics, problem });
+        }
+      });
 
-      // Mirror the field handling in src/webhookAccessory.ts so that what the
-      // Test button sends is what the switch will send.
-      const apiPayload = { text: payload.text };
+      return { success: true, webhooks: results };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
 
-      if (payload.title) {
-        apiPayload.title = payload.title;
-      }
+  /**
+   * Render webhooks for download.
+   *
+   * JSON is the webhooks array exactly as config.json holds it. CSV has one
+   * row per webhook and one column per field, in the settings form's order;
+   * fields holding a list, such as schedules or recipients, are written as
+   * JSON inside their cell.
+   *
+   * @param {Object} payload
+   * @param {Object[]} payload.webhooks - The webhooks being edited
+   * @param {string} payload.format - 'json' or 'csv'
+   * @param {boolean} [payload.includeTokens] - Keep tokens in the file
+   * @returns {Promise<Object>} The file content and a name for it
+   */
+  async exportWebhooks(payload) {
+    try {
+      const query = payload || {};
+      const webhooks = (Array.isArray(query.webhooks) ? query.webhooks : [])
+        .filter((webhook) => webhook && typeof webhook === 'object')
+        .map((webhook) => (query.includeTokens ? webhook : withoutTokens(webhook)));
 
-      if (payload.groupType) {
-        apiPayload.groupType = payload.groupType;
+      if (query.format === 'csv') {
+        return { success: true, content: toCsv(webhooks), fileName: 'notify-webhooks.csv' };
       }
+      return { success: true, content: JSON.stringify(webhooks, null, 2) + '\n', fileName: 'notify-webhooks.json' };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
 
-      // Accept both spellings; iconUrl matches the API and wins if both exist.
-      const iconUrl = payload.iconUrl || payload.iconURL;
-      if (iconUrl) {
-        apiPayload.iconUrl = iconUrl;
+  /**
+   * Work out what importing a file would change.
+   *
+   * Each imported webhook replaces the configured one with the same key,
+   * or failing that the same name, and any other is added. Webhooks the
+   * file does not mention are kept. Tokens missing from the file, as after
+   * an export without them, are kept from the webhook being replaced.
+   *
+   * An entry is left out, as a conflict, when its name is already taken by
+   * a different webhook (one with another key) or appears twice in the
+   * file. Taking either would leave two webhooks the plugin cannot tell
+   * apart, and it would skip one of them at startup.
+   *
+   * @param {Object} payload
+   * @param {string} payload.content - The file's text
+   * @param {string} [payload.format] - 'json' or 'csv'. Default: guessed
+   *   from the first character
+   * @param {Object[]} payload.webhooks - The webhooks being edited
+   * @returns {Promise<Object>} changes: one per imported entry, with its
+   *   status ('added', 'changed', 'unchanged', 'conflict' or 'invalid'), a
+   *   detail line and, unless left out, its index in webhooks: the full
+   *   list as it would be after the import
+   */
+  async previewImport(payload) {
+    try {
+      const query = payload || {};
+      const content = String(query.content || '').replace(/^\uFEFF/, '');
+      if (!content.trim()) {
+        return { success: false, error: 'Choose a file or paste its contents first' };
       }
 
-      if (payload.imageUrl) {
-        apiPayload.imageUrl = payload.imageUrl;
-      }
+      const format = query.format || (/^\s*[[{]/.test(content) ? 'json' : 'csv');
+      const entries = format === 'csv' ? fromCsv(content) : fromJson(content);
 
-      if (payload.timeSensitive) {
-        apiPayload.timeSensitive = true;
-      }
+      const webhooks = (Array.isArray(query.webhooks) ? query.webhooks : []).slice();
+      const existing = webhooks.slice();
+      const claimed = new Set();
+      const imported = new Set();
+      const changes = [];
 
-      // The ID is a path segment, so it must be encoded.
-      const url = new URL(
-        `/notify-json/${encodeURIComponent(payload.id)}`,
-        NOTIFY_API_BASE_URL,
-      );
-      url.searchParams.set('token', payload.token);
-
-      const response = await this.apiRequest({
-        method: 'POST',
-        url,
-        body: JSON.stringify(apiPayload),
-      });
+      entries.forEach(({ webhook, error, row }) => {
+        const label = row ? `Row ${row}` : undefined;
+        if (error) {
+          changes.push({ name: (webhook && webhook.name) || label, status: 'invalid', detail: error });
+          return;
+        }
+        if (!webhook.name) {
+          changes.push({ name: label, status: 'invalid', detail: 'Has no name' });
+          return;
+        }
+        if (imported.has(webhook.name)) {
+          changes.push({ name: webhook.name, status: 'conflict', detail: 'Appears more than once in the file' });
+          return;
+        }
+        imported.add(webhook.name);
 
-      if (response.statusCode === 200) {
-        const data = response.data || {};
-
-        // A group send with partial failures is still HTTP 200.
-        if (typeof data.failureCount === 'number' && data.failureCount > 0) {
-          const sent = typeof data.successCount === 'number' ? data.successCount : 0;
-          const total = typeof data.deviceCount === 'number' ? data.deviceCount : '?';
-          return {
-            success: false,
-            error: `Sent to ${sent} of ${total} devices. ${data.failureCount} failed.`,
-          };
+        const match = findMatch(existing, webhook);
+        if (match.conflict) {
+          changes.push({ name: webhook.name, status: 'conflict', detail: match.conflict });
+          return;
         }
 
-        return { success: true, message: 'Notification sent successfully!' };
-      }
+        if (match.index === undefined) {
+          webhooks.push(webhook);
+          changes.push({ name: webhook.name, status: 'added', index: webhooks.length - 1 });
+          return;
+        }
 
-      if (response.statusCode >= 300 && response.statusCode < 400) {
-        return {
-          success: false,
-          error: 'The Notify API endpoint has moved. Update this plugin to the latest version.',
-        };
-      }
+        if (claimed.has(match.index)) {
+          changes.push({ name: webhook.name, status: 'conflict', detail: 'Replaces a webhook another entry in the file already replaces' });
+          return;
+        }
+        claimed.add(match.index);
+
+        const current = existing[match.index];
+        const merged = withTokensFrom(webhook, current);
+        webhooks[match.index] = merged;
+
+        const difference = describeDifference(current, merged);
+        changes.push({
+          name: merged.name,
+          status: difference ? 'changed' : 'unchanged',
+          detail: difference,
+          index: match.index,
+        });
+      });
 
-      return { success: false, error: this.describeApiError(response) };
+      return { success: true, format, changes, webhooks };
     } catch (error) {
       return { success: false, error: error.message };
     }
   }
 
+  /**
+   * The provider context for a request: the Notify API client and the
+   * network settings, built from the platform settings the page sends
+   * exactly as the plugin builds them at startup.
+   *
+   * Settings the plugin would ignore at startup are reported here instead,
+   * so a Test never quietly goes out a different way than the switch would.
+   *
+   * @param {Object} settings
+   * @param {string} [settings.apiBaseUrl] - The platform's API override
+   * @param {string} [settings.proxyUrl] - Outbound proxy
+   * @param {string[]} [settings.noProxy] - Hosts to reach directly
+   * @param {string} [settings.caFile] - Extra root certificates
+   * @throws {Error} For a setting the plugin would ignore
+   */
+  contextFor({ apiBaseUrl, proxyUrl, noProxy, caFile }) {
+    const transport = new NetworkTransport({ proxyUrl, noProxy, caFile });
+    const notifyApi = new NotifyApiClient({
+      baseUrl: apiBaseUrl ? normalizeApiBaseUrl(apiBaseUrl) : undefined,
+      transport,
+    });
+    return { notifyApi, transport };
+  }
+
   /**
    * Record a verification call against the rolling rate limit.
    *
-   * @returns {boolean} true if the call is allowed, false if the limit is hit
+   * @returns {number} 0 if the call is allowed, otherwise how many
+   *   milliseconds until the oldest call leaves the window and one is
    */
   consumeVerifyBudget() {
     const now = Date.now();
     this.verifyCallTimes = this.verifyCallTimes.filter(t => now - t < VERIFY_RATE_WINDOW_MS);
 
     if (this.verifyCallTimes.length >= VERIFY_RATE_LIMIT) {
-      return false;
+      return Math.max(1, this.verifyCallTimes[0] + VERIFY_RATE_WINDOW_MS - now);
     }
 
     this.verifyCallTimes.push(now);
-    return true;
+    return 0;
   }
 
   /**
-   * Build a readable message from a non-success API response.
+   * Build the message shown for a failed verification or test.
+   *
+   * The wording comes from the plugin's own client and providers, so the
+   * settings screen and the Homebridge log describe a failure the same way.
+   * A category that the user can act on right here gets a hint added.
    */
-  describeApiError(response) {
-    const data = response.data;
+  describeFailure(error) {
+    const message = describeError(error);
+
+    switch (errorCategory(error)) {
+      case 'rate-limited':
+        return `${message}. Wait a minute and try again.`;
+      case 'timeout':
+        return `${message}. The service did not answer in time; check this host's internet connection.`;
+      case 'proxy':
+        return `${message}. Check the proxy settings under Advanced.`;
+      default:
+        return message;
+    }
+  }
+}
 
-    if (data && typeof data === 'object') {
-      const base = data.message || data.error || `HTTP ${response.statusCode}`;
+/**
+ * A copy of a webhook without its tokens or its recipients' tokens.
+ */
+function withoutTokens(webhook) {
+  const copy = Object.assign({}, webhook);
+  TOKEN_FIELDS.forEach((field) => delete copy[field]);
+  if (Array.isArray(copy.recipients)) {
+    copy.recipients = copy.recipients.map((recipient) => {
+      if (!recipient || typeof recipient !== 'object') {
+        return recipient;
+      }
+      const { token, ...rest } = recipient;
+      return rest;
+    });
+  }
+  return copy;
+}
 
-      /**
-       * A delivery rejected by Apple returns a generic error with the real
-       * reason in apnsError. Surface it, since that is the only part telling
-       * the user what to actually do. BadDeviceToken means the device must be
-       * re-registered in the Notify app; the configuration here is fine.
-       */
-      const apnsReason = data.apnsError && data.apnsError.reason;
-      return apnsReason ? `${base} (Apple rejected the delivery: ${apnsReason})` : base;
-    }
+/**
+ * An imported webhook, with the key and any tokens it lacks taken from the
+ * configured webhook it replaces. A recipient's token is taken from the
+ * configured recipient with the same ID.
+ */
+function withTokensFrom(webhook, current) {
+  const merged = Object.assign({}, webhook);
+  if (!merged.key && current.key) {
+    merged.key = current.key;
+  }
 
-    if (typeof data === 'string' && data.trim()) {
-      return data.trim();
+  TOKEN_FIELDS.forEach((field) => {
+    if (!merged[field] && current[field]) {
+      merged[field] = current[field];
     }
+  });
 
-    return `HTTP ${response.statusCode}`;
+  if (Array.isArray(merged.recipients) && Array.isArray(current.recipients)) {
+    merged.recipients = merged.recipients.map((recipient) => {
+      if (!recipient || recipient.token || !recipient.id) {
+        return recipient;
+      }
+      const previous = current.recipients.find((candidate) => candidate && candidate.id === recipient.id);
+      return previous && previous.token ? Object.assign({}, recipient, { token: previous.token }) : recipient;
+    });
   }
 
-  /**
-   * Perform an HTTPS request against the Notify API.
-   *
-   * Redirects are deliberately not followed. The token travels in the query
-   * string, so following a cross-host redirect would hand the credential to
-   * whatever host the redirect names. A 3xx is reported to the caller instead.
-   *
-   * @param {Object} options
-   * @param {string} options.method - HTTP method
-   * @param {URL} options.url - Fully built request URL
-   * @param {string} [options.body] - Request body for POST
-   * @returns {Promise<Object>} Object with statusCode and parsed data
-   */
-  apiRequest({ method, url, body }) {
-    return new Promise((resolve, reject) => {
-      const headers = {};
+  return merged;
+}
 
-      if (body) {
-        headers['Content-Type'] = 'application/json';
-        headers['Content-Length'] = Buffer.byteLength(body);
+/**
+ * The configured webhook an imported one replaces: the one with its key,
+ * else the one with its name.
+ *
+ * @returns {Object} index of the match, if any, or conflict: why the
+ *   imported webhook cannot be taken
+ */
+function findMatch(existing, webhook) {
+  const byName = existing.findIndex((candidate) => candidate && candidate.name === webhook.name);
+
+  if (webhook.key) {
+    const byKey = existing.findIndex((candidate) => candidate && candidate.key === webhook.key);
+    if (byKey !== -1) {
+      if (byName !== -1 && byName !== byKey) {
+        return { conflict: `Renames "${existing[byKey].name}" to a name another webhook already has` };
       }
+      return { index: byKey };
+    }
+  }
 
-      const req = https.request(
-        {
-          hostname: url.hostname,
-          port: url.port || 443,
-          path: `${url.pathname}${url.search}`,
-          method,
-          headers,
-        },
-        (res) => {
-          let raw = '';
-
-          /**
-           * Node suppresses this error unless something listens for it. With
-           * no listener, a connection dropped after the response headers
-           * arrive would emit neither 'end' here nor 'error' on the request,
-           * and the socket timeout is already gone with the destroyed socket,
-           * so the promise would never settle and the UI would spin forever.
-           */
-          res.on('error', (error) => {
-            reject(new Error(`Connection dropped before the response completed: ${error.message}`));
-          });
-
-          res.on('data', (chunk) => {
-            raw += chunk;
-          });
-
-          res.on('end', () => {
-            let data = raw;
-
-            try {
-              data = raw ? JSON.parse(raw) : null;
-            } catch (parseError) {
-              // Not JSON. Keep the raw text so the caller can still show it.
-            }
-
-            resolve({ statusCode: res.statusCode, data });
-          });
-        },
-      );
+  if (byName === -1) {
+    return {};
+  }
 
-      /**
-       * Abort a request that stalls without producing a response. Matches the
-       * timeout the plugin itself uses. destroy() triggers the error handler
-       * below, which rejects with this message. A connection dropped
-       * mid-response is handled by the response error listener above, since
-       * this timer dies with the socket.
-       */
-      req.setTimeout(REQUEST_TIMEOUT_MS, () => {
-        req.destroy(new Error('Request timed out after 10 seconds'));
-      });
+  const current = existing[byName];
+  if (webhook.key && current.key && current.key !== webhook.key) {
+    return { conflict: 'A different webhook already has this name. Rename one of them' };
+  }
+  return { index: byName };
+}
 
-      req.on('error', (error) => {
-        reject(error);
-      });
+/**
+ * Which fields an import changes, e.g. "Changes text, title. Removes
+ * schedules", or an empty string when it changes nothing.
+ */
+function describeDifference(before, after) {
+  const changed = [];
+  const removed = [];
+  const added = [];
+
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach((field) => {
+    if (!(field in after)) {
+      removed.push(field);
+    } else if (!(field in before)) {
+      added.push(field);
+    } else if (canonical(before[field]) !== canonical(after[field])) {
+      changed.push(field);
+    }
+  });
 
-      if (body) {
-        req.write(body);
-      }
+  return [
+    changed.length ? `Changes ${changed.join(', ')}` : '',
+    added.length ? `Sets ${added.join(', ')}` : '',
+    removed.length ? `Removes ${removed.join(', ')}` : '',
+  ].filter(Boolean).join('. ');
+}
+
+/**
+ * JSON with object keys sorted, so that the same webhook compares equal
+ * however its fields are ordered.
+ */
+function canonical(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Read the webhooks from a JSON file: a webhooks array as exported, or
+ * anything holding one under "webhooks", such as the plugin's whole
+ * config.json block.
+ *
+ * @returns {Object[]} One { webhook } or { error } per entry
+ * @throws {Error} When the file is not JSON or holds no webhooks array
+ */
+function fromJson(content) {
+  let parsed;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${error.message}`);
+  }
+
+  const list = Array.isArray(parsed) ? parsed : parsed && parsed.webhooks;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected a list of webhooks, or an object with a "webhooks" list');
+  }
 
-      req.end();
+  return list.map((webhook, index) => (webhook && typeof webhook === 'object' && !Array.isArray(webhook)
+    ? { webhook }
+    : { error: `Entry ${index + 1} is not a webhook object` }));
+}
+
+/**
+ * Render webhooks as CSV. Columns are the fields in use, in the settings
+ * form's order, then any the form does not know. Cells follow RFC 4180.
+ *
+ * Text that a spreadsheet would run as a formula, anything starting with
+ * =, +, -, @ or a tab, gets a leading apostrophe first. Names and messages
+ * are free text, and an exported file is exactly what gets opened in Excel
+ * for bulk editing. fromCsv() takes the apostrophe off again. Text that
+ * already starts with apostrophes before one of those gets one more, so
+ * "'=SUM" comes back as itself rather than as "=SUM".
+ */
+function toCsv(webhooks) {
+  const known = Object.keys(WEBHOOK_FIELDS);
+  const used = new Set();
+  webhooks.forEach((webhook) => Object.keys(webhook).forEach((field) => used.add(field)));
+  const columns = [
+    ...known.filter((field) => used.has(field)),
+    ...[...used].filter((field) => !known.includes(field)).sort(),
+  ];
+
+  const cell = (value) => {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (typeof value === 'string' && FORMULA_START.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = [columns, ...webhooks.map((webhook) => columns.map((field) => webhook[field]))];
+  return rows.map((row) => row.map(cell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Read webhooks from CSV, the first row naming the fields. Each cell is
+ * read as its field's type in config.schema.json; an empty cell leaves the
+ * field unset.
+ *
+ * @returns {Object[]} One { webhook, row } or { error, row } per data row
+ */
+function fromCsv(content) {
+  const [header, ...rows] = parseCsv(content);
+  if (!header || header.length === 0) {
+    throw new Error('The CSV file has no header row');
+  }
+  const columns = header.map((field) => field.trim());
+  if (!columns.includes('name')) {
+    throw new Error('The CSV file needs a "name" column');
+  }
+
+  return rows
+    .map((cells, index) => ({ cells, row: index + 2 }))
+    .filter(({ cells }) => cells.some((value) => value.trim() !== ''))
+    .map(({ cells, row }) => {
+      const webhook = {};
+      for (let column = 0; column < columns.length; column++) {
+        const field = columns[column];
+        const raw = cells[column] === undefined ? '' : cells[column];
+        if (!field || raw.trim() === '') {
+          continue;
+        }
+
+        const value = readCell(raw, WEBHOOK_FIELDS[field]);
+        if (value instanceof Error) {
+          return { webhook, row, error: `${field}: ${value.message}` };
+        }
+        webhook[field] = value;
+      }
+      return { webhook, row };
     });
+}
+
+/**
+ * One CSV cell as the type its field has in the schema. Fields the schema
+ * does not know are kept as text.
+ *
+ * @returns The value, or an Error saying why it cannot be read
+ */
+function readCell(raw, field) {
+  const type = field && field.type;
+  const text = raw.trim();
+
+  switch (type) {
+    case 'boolean':
+      if (/^(true|yes|1)$/i.test(text)) {
+        return true;
+      }
+      if (/^(false|no|0)$/i.test(text)) {
+        return false;
+      }
+      return new Error(`"${text}" is not true or false`);
+    case 'integer':
+    case 'number': {
+      const number = Number(text);
+      if (!Number.isFinite(number) || (type === 'integer' && !Number.isInteger(number))) {
+        return new Error(`"${text}" is not a${type === 'integer' ? ' whole' : ''} number`);
+      }
+      return number;
+    }
+    case 'array':
+    case 'object':
+      try {
+        const parsed = JSON.parse(text);
+        if (type === 'array' ? Array.isArray(parsed) : parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          return parsed;
+        }
+      } catch (error) {
+        // Reported below, with the same wording as a value of the wrong type
+      }
+      return new Error(`expected a JSON ${type === 'array' ? 'list' : 'object'}`);
+    default:
+      // Undo toCsv()'s formula guard
+      return /^'/.test(raw) && FORMULA_START.test(raw.slice(1)) ? raw.slice(1) : raw;
   }
 }
 
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may hold
+ * commas, line breaks and doubled quotes). Either line ending is accepted.
+ */
+function parseCsv(content) {
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('The CSV file ends inside a quoted cell');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
 // Start the server
 (() => {
   return new NotifyWebhooksUiServer();
@@ -0,0 +1,122 @@
+/**
+ * CooldownMode - What happens to a trigger that arrives during the cooldown
+ *
+ * - drop:  Discard it. The next trigger after the cooldown sends normally.
+ * - defer: Hold it, and send once when the cooldown ends. Any number of
+ *          triggers during one cooldown produce a single deferred send.
+ */
+export type CooldownMode = 'drop' | 'defer';
+
+/**
+ * Summary of triggers folded into one send, for the coalesced message.
+ */
+export interface CoalescedTriggers {
+  count: number;     // Triggers represented by this send, itself included
+  sinceMs: number;   // Epoch ms of the earliest of them
+}
+
+/**
+ * CooldownDecision - The gate's verdict on one trigger
+ */
+export type CooldownDecision =
+  | { action: 'send'; coalesced?: CoalescedTriggers }
+  | { action: 'drop'; remainingMs: number }
+  | { action: 'defer'; remainingMs: number };
+
+/**
+ * TriggerCooldown - Per-webhook duplicate suppression
+ *
+ * A chatty automation can flip the same switch dozens of times a minute.
+ * This gate lets the first trigger through and then holds the webhook quiet
+ * for the configured number of seconds, either dropping repeats or deferring
+ * them into one send at the end of the window.
+ *
+ * It also keeps count of what it held back, so the send that finally goes
+ * out can say "5 times in the last 3 min" instead of pretending the repeats
+ * never happened.
+ *
+ * The window runs from the last send ATTEMPT, not the last success. A
+ * failing webhook is therefore throttled just the same, rather than
+ * hammering the API once per trigger.
+ *
+ * Pure bookkeeping: no timers live here. The accessory owns the timer for a
+ * deferred send and calls release() when it fires.
+ */
+export class TriggerCooldown {
+  private lastSentAt?: number;
+  private suppressedCount = 0;
+  private suppressedSince?: number;
+
+  /**
+   * @param cooldownMs - Length of the quiet window; 0 disables the gate
+   * @param mode - What to do with a trigger inside the window
+   */
+  constructor(
+    private readonly cooldownMs: number,
+    private readonly mode: CooldownMode,
+  ) {}
+
+  /**
+   * Decide what to do with a trigger arriving now.
+   *
+   * A 'send' verdict counts as a send: the window restarts from now.
+   */
+  check(now: number): CooldownDecision {
+    if (this.cooldownMs <= 0) {
+      return { action: 'send' };
+    }
+
+    if (this.lastSentAt !== undefined && now - this.lastSentAt < this.cooldownMs) {
+      this.suppressedCount += 1;
+      this.suppressedSince ??= now;
+
+      return {
+        action: this.mode === 'defer' ? 'defer' : 'drop',
+        remainingMs: this.lastSentAt + this.cooldownMs - now,
+      };
+    }
+
+    // This trigger goes out, carrying any earlier ones dropped in the window.
+    const coalesced = this.suppressedCount > 0
+      ? { count: this.suppressedCount + 1, sinceMs: this.suppressedSince ?? now }
+      : undefined;
+
+    this.reset(now);
+    return { action: 'send', coalesced };
+  }
+
+  /**
+   * Release the triggers held for a deferred send.
+   *
+   * Called when the deferred timer fires. Unlike check(), there is no new
+   * trigger here: the send stands in for the held ones only.
+   */
+  release(now: number): CoalescedTriggers | undefined {
+    const coalesced = this.suppressedCount > 1
+      ? { count: this.suppressedCount, sinceMs: this.suppressedSince ?? now }
+      : undefined;
+
+    this.reset(now);
+    return coalesced;
+  }
+
+  private reset(now: number) {
+    this.lastSentAt = now;
+    this.suppressedCount = 0;
+    this.suppressedSince = undefined;
+  }
+}
+
+/**
+ * Describe coalesced triggers for the end of a message.
+ *
+ * @example describeCoalesced({ count: 5, sinceMs }, now) === '5 times in the last 3 min'
+ */
+export function describeCoalesced(coalesced: CoalescedTriggers, now: number): string {
+  const elapsedSeconds = Math.max(1, Math.round((now - coalesced.sinceMs) / 1000));
+  const span = elapsedSeconds < 90
+    ? `${elapsedSeconds} sec`
+    : `${Math.round(elapsedSeconds / 60)} min`;
+
+  return `${coalesced.count} times in the last ${span}`;
+}
@@ -0,0 +1,402 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from 'homebridge';
+
+import type { NotifyPayload } from './webhookAccessory';
+import { isRetryableError } from './errors';
+import { parseTime } from './schedule';
+import { formatDate } from './template';
+import { NOTIFY_TEXT_LIMIT_BYTES } from './validation';
+
+/**
+ * DigestConfig - One named digest bucket
+ *
+ * Webhooks with "digest" set to a bucket's name add their triggers to it
+ * instead of sending them, and the bucket goes out as one notification
+ * listing each event and its time.
+ *
+ * CONFIGURATION EXAMPLE:
+ * "digests": [
+ *   { "name": "Household", "times": ["12:00", "19:00"], "title": "Around the house" },
+ *   { "name": "Deliveries", "intervalMinutes": 120, "profile": "Family" }
+ * ]
+ *
+ * A webhook may name a bucket that is not listed here; it then flushes on
+ * the default interval, to the first contributing webhook's own target.
+ */
+export interface DigestConfig {
+  name: string;          // What webhooks' "digest" refers to
+  intervalMinutes?: number; // Send once the oldest entry is this old
+  times?: string[];      // Send at these times of day ("HH:mm", host
+                        // time). With intervalMinutes as well, whichever
+                        // comes first. Neither: every 60 minutes.
+  title?: string;        // Title of the summary. Default: the name
+  timeFormat?: string;   // How each entry's time is shown, in the
+                        // {{time}} placeholder's format. Default: "HH:mm"
+  profile?: string;      // Send the summary with this profile's id and token
+  id?: string;           // ...or to this id. Neither: the id of the first
+  token?: string;        // webhook in the bucket. token defaults to that
+                        // webhook's token.
+}
+
+/**
+ * DigestEntry - One trigger waiting in a bucket
+ *
+ * Stored with the rendered text rather than anything to re-render later, so
+ * the summary says what the notification would have said at the time.
+ */
+export interface DigestEntry {
+  digest: string;        // Bucket name
+  webhook: string;       // Name of the webhook that was triggered
+  key?: string;          // Its identity (see webhookIdentity()), which
+                        // survives a rename. Absent in older entries
+  title?: string;
+  text: string;
+  time: number;          // Epoch ms of the trigger
+}
+
+/**
+ * Callbacks the digests need from the platform, in the same style as
+ * OutboxHandlers.
+ */
+export interface DigestHandlers {
+  /**
+   * The bucket's configuration. Never undefined: a bucket without an entry
+   * in "digests" gets the defaults.
+   */
+  configFor(digest: string): DigestConfig;
+
+  /**
+   * Send a finished summary. Resolves on success, rejects with the same
+   * errors as a live send.
+   *
+   * @param webhooks - Identities of the webhooks in the bucket, oldest
+   *   entry first, for the platform to pick one to send with. An entry
+   *   added before entries had an identity is named by its webhook name
+   */
+  deliver(digest: DigestConfig, payload: NotifyPayload, webhooks: string[]): Promise<unknown>;
+
+  /**
+   * Turn an error into a log-safe message (no token).
+   */
+  describeError(error: unknown): string;
+}
+
+export const DIGEST_FILE_NAME = 'notify-alerts-digests.json';
+export const DEFAULT_DIGEST_INTERVAL_MINUTES = 60;
+
+/**
+ * A summary that failed for a temporary reason is tried again after this
+ * long. Later triggers keep joining the bucket meanwhile.
+ */
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Node's timers overflow past about 24.8 days. A longer wait is armed in
+ * steps of at most a day, and the bucket's due time is checked each time.
+ */
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * NotifyDigests - Durable digest buckets
+ *
+ * Entries are kept in a JSON file in the Homebridge storage path, rewritten
+ * synchronously after every change, like the outbox. A bucket's due time is
+ * worked out from its oldest entry, so after a restart a bucket that fell
+ * due while Homebridge was down is sent straight away, and one that is not
+ * due yet keeps its original time.
+ */
+export class NotifyDigests {
+  private entries: DigestEntry[] = [];
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly retryAt = new Map<string, number>();
+  private readonly flushing = new Set<string>();
+  private stopped = false;
+
+  private readonly filePath: string;
+
+  /**
+   * @param log - Platform logger
+   * @param storagePath - Homebridge storage directory (api.user.storagePath())
+   * @param handlers - Lookups and delivery supplied by the platform
+   */
+  constructor(
+    private readonly log: Logger,
+    storagePath: string,
+    private readonly handlers: DigestHandlers,
+  ) {
+    this.filePath = path.join(storagePath, DIGEST_FILE_NAME);
+  }
+
+  /**
+   * Load entries left over from a previous run and schedule their buckets.
+   * A corrupt file is set aside, as with the outbox.
+   */
+  load() {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        this.entries = Array.isArray(parsed) ? parsed.filter(isDigestEntry) : [];
+      }
+    } catch (error) {
+      const aside = `${this.filePath}.corrupt-${Date.now()}`;
+      this.log.error(`Could not read the pending digests, moving them to ${aside}:`, (error as Error).message);
+      try {
+        fs.renameSync(this.filePath, aside);
+      } catch {
+        // Nothing more can be done; the next save overwrites it.
+      }
+      this.entries = [];
+    }
+
+    const buckets = this.bucketNames();
+    if (buckets.length > 0) {
+      this.log.info(`Resuming ${this.entries.length} pending digest entr${this.entries.length === 1 ? 'y' : 'ies'}`);
+    }
+    buckets.forEach(name => this.schedule(name));
+  }
+
+  /**
+   * Add a trigger to a bucket.
+   *
+   * @param digest - Bucket name
+   * @param key - Webhook identity (see webhookIdentity())
+   * @param webhook - Webhook name, for the summary
+   * @param payload - The notification the webhook would have sent
+   */
+  add(digest: string, key: string, webhook: string, payload: NotifyPayload) {
+    this.entries.push({ digest, webhook, key, title: payload.title, text: payload.text, time: Date.now() });
+    this.save();
+
+    // A new bucket needs its timer; an existing one already has it
+    if (!this.timers.has(digest) && !this.flushing.has(digest)) {
+      this.schedule(digest);
+    }
+  }
+
+  /**
+   * Number of entries waiting in a bucket.
+   */
+  size(digest: string): number {
+    return this.entries.filter(entry => entry.digest === digest).length;
+  }
+
+  /**
+   * Stop every timer. Called on Homebridge shutdown; pending entries stay on
+   * disk for the next start.
+   */
+  stop() {
+    this.stopped = true;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * When a bucket should be sent: the earlier of its interval, counted
+   * from the oldest entry, and its next fixed time after that entry. A
+   * failed send pushes it back to the retry time.
+   */
+  private dueAt(name: string): number | undefined {
+    const oldest = this.entries.find(entry => entry.digest === name);
+    if (!oldest) {
+      return undefined;
+    }
+
+    const config = this.handlers.configFor(name);
+    const candidates: number[] = [];
+
+    const times = Array.isArray(config.times) ? config.times : [];
+    for (const time of times) {
+      const next = nextTimeOfDay(time, oldest.time);
+      if (next !== undefined) {
+        candidates.push(next);
+      }
+    }
+
+    const interval = Number(config.intervalMinutes);
+    if (interval > 0 || candidates.length === 0) {
+      candidates.push(oldest.time + (interval > 0 ? interval : DEFAULT_DIGEST_INTERVAL_MINUTES) * 60000);
+    }
+
+    return Math.max(Math.min(...candidates), this.retryAt.get(name) ?? 0);
+  }
+
+  /**
+   * Arm the timer for one bucket.
+   */
+  private schedule(name: string) {
+    const existing = this.timers.get(name);
+    if (existing) {
+      clearTimeout(existing);
+      this.timers.delete(name);
+    }
+
+    const due = this.dueAt(name);
+    if (this.stopped || due === undefined) {
+      return;
+    }
+
+    const delay = Math.max(0, due - Date.now());
+    this.timers.set(name, setTimeout(() => {
+      this.timers.delete(name);
+      if (delay >= MAX_TIMER_MS) {
+        this.schedule(name);
+        return;
+      }
+      this.flush(name).catch((error) => {
+        this.log.error(`Digest "${name}" failed:`, (error as Error).message);
+      });
+    }, Math.min(delay, MAX_TIMER_MS)));
+  }
+
+  /**
+   * Send one bucket as a single notification.
+   *
+   * Only the entries present when the send starts are removed afterwards;
+   * triggers that arrive while it is in flight wait for the next one.
+   */
+  private async flush(name: string) {
+    const batch = this.entries.filter(entry => entry.digest === name);
+    if (batch.length === 0 || this.stopped) {
+      return;
+    }
+
+    this.flushing.add(name);
+    const config = this.handlers.configFor(name);
+    const webhooks = [...new Set(batch.map(entry => entry.key ?? entry.webhook))];
+
+    try {
+      await this.handlers.deliver(config, formatDigest(config, batch), webhooks);
+      this.log.info(`Sent digest "${name}" with ${batch.length} event(s)`);
+      this.remove(batch);
+      this.retryAt.delete(name);
+    } catch (error) {
+      const reason = this.handlers.describeError(error);
+
+      if (!isRetryableError(error)) {
+        this.log.error(`Digest "${name}" was rejected, dropping its ${batch.length} event(s): ${reason}`);
+        this.remove(batch);
+        this.retryAt.delete(name);
+      } else {
+        this.log.warn(`Digest "${name}" failed (${reason}); trying again in ${RETRY_DELAY_MS / 60000} minutes`);
+        this.retryAt.set(name, Date.now() + RETRY_DELAY_MS);
+      }
+    } finally {
+      this.flushing.delete(name);
+      this.save();
+      this.schedule(name);
+    }
+  }
+
+  private remove(batch: DigestEntry[]) {
+    this.entries = this.entries.filter(entry => !batch.includes(entry));
+  }
+
+  private bucketNames(): string[] {
+    return [...new Set(this.entries.map(entry => entry.digest))];
+  }
+
+  /**
+   * Write the buckets to disk atomically, through a temporary file.
+   */
+  private save() {
+    try {
+      if (this.entries.length === 0) {
+        if (fs.existsSync(this.filePath)) {
+          fs.unlinkSync(this.filePath);
+        }
+        return;
+      }
+
+      const temp = `${this.filePath}.tmp`;
+      fs.writeFileSync(temp, JSON.stringify(this.entries, null, 2));
+      fs.renameSync(temp, this.filePath);
+    } catch (error) {
+      this.log.error('Could not save the pending digests:', (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Build the summary notification for a batch of entries.
+ *
+ * One line per event, oldest first, labelled with the notification's title
+ * or else the webhook's name: "14:05 Dryer: Cycle finished". When the
+ * lines would not fit in one message, the oldest are left out and counted
+ * on the first line instead, since the latest events are the ones still
+ * worth acting on.
+ */
+export function formatDigest(config: DigestConfig, entries: DigestEntry[]): NotifyPayload {
+  const format = config.timeFormat || 'HH:mm';
+  const lines = entries.map(entry =>
+    `${formatDate(new Date(entry.time), format)} ${entry.title || entry.webhook}: ${entry.text}`);
+
+  let omitted = 0;
+  const render = () => (omitted > 0 ? [`…and ${omitted} earlier`, ...lines.slice(omitted)] : lines).join('\n');
+  while (omitted < lines.length - 1 && Buffer.byteLength(render(), 'utf8') > NOTIFY_TEXT_LIMIT_BYTES) {
+    omitted += 1;
+  }
+
+  return {
+    title: config.title || config.name,
+    text: render(),
+  };
+}
+
+/**
+ * Check one digest entry for mistakes.
+ *
+ * @returns A description of the problem, or undefined when it is fine
+ */
+export function validateDigestConfig(config: DigestConfig): string | undefined {
+  if (!config || typeof config !== 'object' || !config.name) {
+    return 'needs a "name"';
+  }
+
+  if (config.intervalMinutes !== undefined && !(Number(config.intervalMinutes) > 0)) {
+    return `has an invalid intervalMinutes "${config.intervalMinutes}" (use a number of minutes above 0)`;
+  }
+
+  if (config.times !== undefined) {
+    if (!Array.isArray(config.times)) {
+      return 'has "times" that is not a list';
+    }
+    const invalid = config.times.find(time => parseTime(time) === undefined);
+    if (invalid !== undefined) {
+      return `has an invalid time "${invalid}" (use HH:mm, 24-hour)`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The first moment after `after` at which the host clock reads `time`.
+ */
+function nextTimeOfDay(time: string, after: number): number | undefined {
+  const minutes = parseTime(time);
+  if (minutes === undefined) {
+    return undefined;
+  }
+
+  const next = new Date(after);
+  next.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  if (next.getTime() <= after) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime();
+}
+
+/**
+ * Accept only well-formed entries from disk.
+ */
+function isDigestEntry(value: unknown): value is DigestEntry {
+  const entry = value as DigestEntry;
+  return !!entry
+    && typeof entry.digest === 'string'
+    && typeof entry.webhook === 'string'
+    && typeof entry.text === 'string'
+    && typeof entry.time === 'number';
+}
@@ -0,0 +1,255 @@
+import axios from 'axios';
+
+/**
+ * NotifyApiError - The delivery service answered, but not with a success
+ *
+ * Thrown for any unsuccessful response that axios itself lets through (3xx
+ * and 4xx; see validateStatus in the providers). Carrying the status code
+ * lets callers tell "the request never arrived" apart from "the request
+ * arrived and was refused", which matters for deciding whether trying again
+ * can ever help.
+ *
+ * Named for the Notify API, the original and default provider, but thrown
+ * by every provider in providers/.
+ */
+export class NotifyApiError extends Error {
+  /**
+   * @param message - Log-safe description
+   * @param status - HTTP status of the response
+   * @param retryable - The provider's own verdict on whether trying again
+   *   can help. Omitted: only 429 is retried (see isRetryableError)
+   * @param apnsReason - Apple's reason, when Apple rejected the delivery
+   *   (Notify API only), e.g. "BadDeviceToken"
+   */
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly retryable?: boolean,
+    public readonly apnsReason?: string,
+  ) {
+    super(message);
+    this.name = 'NotifyApiError';
+  }
+}
+
+/**
+ * ProxyError - The configured proxy, not the destination, was the problem
+ *
+ * Thrown by the tunnel in network.ts when the proxy cannot be reached or
+ * refuses the connection. axios wraps it, so it is found through the
+ * axios error's cause (see proxyError()).
+ */
+export class ProxyError extends Error {
+  /**
+   * @param message - Log-safe description naming the proxy
+   * @param status - The proxy's answer to CONNECT, if it answered
+   */
+  constructor(
+    message: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+/**
+ * Node's codes for a certificate that failed verification. Behind a proxy
+ * that inspects TLS, these almost always mean its root certificate is
+ * missing from caFile.
+ */
+const TLS_ERROR_CODES = new Set([
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'CERT_UNTRUSTED',
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'ERR_TLS_CERT_ALTNAME_INVALID',
+]);
+
+/**
+ * The ProxyError behind a failed request, if the proxy was the problem.
+ */
+function proxyError(error: unknown): ProxyError | undefined {
+  if (error instanceof ProxyError) {
+    return error;
+  }
+  const cause = (error as { cause?: unknown } | undefined)?.cause;
+  return cause instanceof ProxyError ? cause : undefined;
+}
+
+/**
+ * The certificate error code behind a failed request, if TLS verification
+ * was the problem.
+ */
+function tlsErrorCode(error: unknown): string | undefined {
+  const code = (error as { code?: unknown } | undefined)?.code;
+  return typeof code === 'string' && TLS_ERROR_CODES.has(code) ? code : undefined;
+}
+
+/**
+ * Decide whether a failed send is worth retrying later.
+ *
+ * RETRIED:
+ * - Network failures with no response at all (DNS, refused, reset)
+ * - Timeouts
+ * - 5xx responses, which axios throws as errors
+ * - 429, because rate limiting is by definition temporary and backing off
+ *   is exactly what the API is asking for
+ *
+ * NEVER RETRIED:
+ * - Every other 4xx. A bad token, an unknown ID or a malformed payload will
+ *   be just as wrong on the tenth attempt, and hammering the API with it
+ *   eats the per-address rate limit that working webhooks share.
+ * - 3xx. The endpoint has moved; only a plugin update fixes that.
+ * - TLS verification failures and a proxy refusing the connection. Both
+ *   are configuration problems that will not fix themselves. A proxy that
+ *   cannot be reached at all is retried like any other network failure.
+ * - Anything unrecognised, to stay on the safe side.
+ *
+ * A provider that knows better, for example that its service signals a
+ * temporary condition with some other status, says so through
+ * NotifyApiError.retryable, which takes precedence.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof NotifyApiError) {
+    return error.retryable ?? error.status === 429;
+  }
+
+  const proxy = proxyError(error);
+  if (proxy) {
+    return proxy.status === undefined || proxy.status >= 500;
+  }
+
+  if (tlsErrorCode(error)) {
+    return false;
+  }
+
+  if (axios.isAxiosError(error)) {
+    return !error.response || error.response.status >= 500;
+  }
+
+  return false;
+}
+
+/**
+ * ErrorCategory - What kind of failure a send or verification hit
+ *
+ * Shared by the plugin and the settings UI server so both sort failures
+ * the same way:
+ * - auth:       401 or 403. The token is wrong for this ID.
+ * - not-found:  404. No such device, group or topic.
+ * - rate-limited: 429
+ * - apns:       The API accepted the request but Apple refused delivery
+ * - invalid:    Any other 4xx. Something in the request itself is wrong.
+ * - moved:      3xx. The endpoint moved; only a plugin update helps.
+ * - server:     5xx
+ * - proxy:      The configured proxy could not be reached or refused
+ * - tls:        The server's certificate failed verification
+ * - timeout:    No response within the time limit
+ * - network:    No response at all (DNS, refused, reset)
+ * - unknown:    Anything else, such as a bug
+ */
+export type ErrorCategory =
+  | 'auth' | 'not-found' | 'rate-limited' | 'apns' | 'invalid'
+  | 'moved' | 'server' | 'proxy' | 'tls' | 'timeout' | 'network' | 'unknown';
+
+/**
+ * Sort a failed request into an ErrorCategory.
+ */
+export function errorCategory(error: unknown): ErrorCategory {
+  if (error instanceof NotifyApiError) {
+    if (error.apnsReason) {
+      return 'apns';
+    }
+    return categoryForStatus(error.status);
+  }
+
+  if (proxyError(error)) {
+    return 'proxy';
+  }
+
+  if (tlsErrorCode(error)) {
+    return 'tls';
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      return categoryForStatus(error.response.status);
+    }
+    return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'timeout' : 'network';
+  }
+
+  return 'unknown';
+}
+
+function categoryForStatus(status: number): ErrorCategory {
+  if (status >= 500) {
+    return 'server';
+  }
+  if (status >= 300 && status < 400) {
+    return 'moved';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 404) {
+    return 'not-found';
+  }
+  if (status === 429) {
+    return 'rate-limited';
+  }
+  return status >= 400 ? 'invalid' : 'unknown';
+}
+
+/**
+ * The HTTP status behind a failed send, if the API answered at all.
+ */
+export function errorStatus(error: unknown): number | undefined {
+  if (error instanceof NotifyApiError) {
+    return error.status;
+  }
+
+  if (axios.isAxiosError(error)) {
+    return error.response?.status;
+  }
+
+  return undefined;
+}
+
+/**
+ * Build a Safe, Human-Readable Error Message
+ *
+ * IMPORTANT: Never log the raw axios error object. It embeds the full
+ * request config, including the token query parameter, so logging it
+ * directly would leak the user's API token into the Homebridge log.
+ * This extracts only the useful, non-sensitive parts.
+ *
+ * Proxy and TLS failures are spelled out, since behind a filtering proxy
+ * the raw socket error does not say which of the two to go and fix.
+ *
+ * @param error - The error thrown by a send
+ * @returns A concise message with status code and API response details
+ */
+export function describeError(error: unknown): string {
+  const proxy = proxyError(error);
+  if (proxy) {
+    return proxy.message;
+  }
+
+  const tlsCode = tlsErrorCode(error);
+  if (tlsCode) {
+    return `TLS verification failed (${tlsCode}). If a proxy on this network inspects HTTPS, ` +
+      'set caFile to its root certificate';
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response ? `HTTP ${error.response.status}` : (error.code || 'network error');
+    const detail = error.response?.data ? ` - ${JSON.stringify(error.response.data)}` : '';
+    return `${status}: ${error.message}${detail}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
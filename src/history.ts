@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from 'homebridge';
+
+import type { NotifyPayload } from './webhookAccessory';
+
+/**
+ * HistoryEntry - One send attempt, as recorded in the history file
+ *
+ * Written for every request made to the Notify API: live triggers,
+ * escalation repeats and outbox retries alike. Triggers that never reached
+ * the API (dropped by a cooldown, held by a schedule) are not attempts and
+ * are not recorded.
+ *
+ * The token is never part of an entry. The payload holds only the rendered
+ * notification body, and the target is identified by its ID.
+ */
+export interface HistoryEntry {
+  time: string;             // ISO timestamp the attempt started
+  webhook: string;          // Webhook name at the time
+  key?: string;             // Webhook identity (see webhookIdentity()), which
+                            // survives a rename. Absent in older entries
+  id: string;               // Device or Group ID the attempt went to
+  recipient?: string;       // Recipient label, when not the webhook's own ID
+  outcome: 'sent' | 'partial' | 'failed';
+  status?: number;          // HTTP status; absent when no response came back
+                            // or the provider did not report one
+  latencyMs: number;        // Time from request to response or failure
+  deviceCount?: number;     // Group sends only, from the API response
+  successCount?: number;
+  failureCount?: number;
+  payload: NotifyPayload;   // Rendered body as sent
+  error?: string;           // Log-safe failure description
+}
+
+/**
+ * Filters for readHistory().
+ */
+export interface HistoryQuery {
+  webhook?: string;                     // Webhook identity. Matches an entry's
+                                        // key, or the name of an entry
+                                        // recorded without one
+  outcome?: HistoryEntry['outcome'];
+  limit?: number;                       // Newest first. Default: DEFAULT_HISTORY_LIMIT
+}
+
+export const HISTORY_FILE_NAME = 'notify-alerts-history.jsonl';
+
+/**
+ * Size at which the file is rotated. One previous file is kept beside it,
+ * so the history never takes more than twice this on disk.
+ */
+const MAX_FILE_BYTES = 1024 * 1024;
+
+const DEFAULT_HISTORY_LIMIT = 200;
+
+/**
+ * DeliveryHistory - Bounded, rotating record of send attempts
+ *
+ * Answers "I never got the alert" without scrolling the Homebridge log: the
+ * settings UI reads this file through its /history route and can filter it
+ * by webhook and outcome.
+ *
+ * Stored as JSON Lines, one entry per line, so recording is a single append
+ * and a torn last line after a crash costs one entry rather than the file.
+ * When the file passes MAX_FILE_BYTES it is renamed to a ".1" file,
+ * replacing the previous one, and a fresh file is started.
+ *
+ * Recording never throws. Losing a history line is always preferable to
+ * failing a notification over it.
+ */
+export class DeliveryHistory {
+  private readonly filePath: string;
+  private size?: number;
+
+  /**
+   * @param log - Platform logger
+   * @param storagePath - Homebridge storage directory (api.user.storagePath())
+   */
+  constructor(
+    private readonly log: Logger,
+    storagePath: string,
+  ) {
+    this.filePath = path.join(storagePath, HISTORY_FILE_NAME);
+  }
+
+  /**
+   * Append one attempt to the history.
+   */
+  record(entry: HistoryEntry) {
+    try {
+      const line = JSON.stringify(entry) + '\n';
+      const bytes = Buffer.byteLength(line);
+
+      this.size ??= fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+      if (this.size > 0 && this.size + bytes > MAX_FILE_BYTES) {
+        fs.renameSync(this.filePath, `${this.filePath}.1`);
+        this.size = 0;
+      }
+
+      fs.appendFileSync(this.filePath, line);
+      this.size += bytes;
+    } catch (error) {
+      this.size = undefined;
+      this.log.debug('Could not write the delivery history:', (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Read recorded attempts, newest first.
+ *
+ * Used by the settings UI server, which runs in its own process and has no
+ * DeliveryHistory instance. Reads the rotated file as well so a rotation
+ * does not suddenly empty the viewer. Unparseable lines are skipped.
+ *
+ * @param storagePath - Homebridge storage directory
+ * @param query - Optional filters and limit
+ */
+export function readHistory(storagePath: string, query: HistoryQuery = {}): HistoryEntry[] {
+  const filePath = path.join(storagePath, HISTORY_FILE_NAME);
+  const limit = Number(query.limit) > 0 ? Number(query.limit) : DEFAULT_HISTORY_LIMIT;
+  const entries: HistoryEntry[] = [];
+
+  for (const file of [filePath, `${filePath}.1`]) {
+    let lines: string[];
+    try {
+      lines = fs.readFileSync(file, 'utf8').split('\n');
+    } catch {
+      continue;
+    }
+
+    for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+      const entry = parseLine(lines[i]);
+      if (entry
+        && (!query.webhook || (entry.key ?? entry.webhook) === query.webhook)
+        && (!query.outcome || entry.outcome === query.outcome)) {
+        entries.push(entry);
+      }
+    }
+  }
+
+  return entries;
+}
+
+function parseLine(line: string): HistoryEntry | undefined {
+  if (!line.trim()) {
+    return undefined;
+  }
+
+  try {
+    const entry = JSON.parse(line);
+    return entry && typeof entry.webhook === 'string' && typeof entry.time === 'string' ? entry : undefined;
+  } catch {
+    return undefined;
+  }
+}
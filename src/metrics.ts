@@ -0,0 +1,273 @@
+import http from 'http';
+import { Logger } from 'homebridge';
+
+import { ErrorCategory } from './errors';
+
+/**
+ * MetricsConfig - Platform-level settings for the metrics endpoint
+ *
+ * CONFIGURATION EXAMPLE:
+ * "metrics": {
+ *   "enabled": true,
+ *   "port": 51829,
+ *   "localhostOnly": true
+ * }
+ */
+export interface MetricsConfig {
+  enabled?: boolean;       // Off unless explicitly turned on
+  port?: number;           // Default: DEFAULT_METRICS_PORT
+  localhostOnly?: boolean; // Listen on 127.0.0.1 only, for a Prometheus on
+                          // this machine or behind a local reverse proxy.
+                          // Default: every interface
+}
+
+export const DEFAULT_METRICS_PORT = 51829;
+
+/**
+ * Upper bounds, in seconds, of the send latency histogram's buckets. A
+ * healthy send takes a few hundred milliseconds; the top buckets catch
+ * proxies and retries of a slow network, up to the request timeout.
+ */
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Values read from the platform at scrape time rather than counted as they
+ * happen, supplied by the platform.
+ */
+export interface MetricsSources {
+  webhooks(): number;         // Live webhook handlers
+  failingWebhooks(): number;  // Webhooks currently reporting a fault
+  pendingRetries(): number;   // Entries waiting in the outbox
+  muted(): boolean;           // The mute switch
+}
+
+type Labels = Record<string, string>;
+
+/**
+ * NotifyMetrics - Delivery metrics in the Prometheus text format
+ *
+ * Counts what happens to each webhook's notifications, for a Prometheus
+ * scrape and the Grafana dashboards the rest of the house already has:
+ *
+ *   notify_alerts_triggers_total{webhook}                  Switch turned on,
+ *                                                          from HomeKit or the
+ *                                                          trigger endpoint
+ *   notify_alerts_sends_succeeded_total{webhook}           Accepted by the
+ *                                                          provider
+ *   notify_alerts_sends_failed_total{webhook,category}     Refused or never
+ *                                                          answered; category
+ *                                                          as in errors.ts
+ *   notify_alerts_group_partial_failures_total{webhook}    Group sends that
+ *                                                          missed some devices
+ *   notify_alerts_group_devices_failed_total{webhook}      The devices missed
+ *   notify_alerts_send_duration_seconds{webhook}           Histogram of the
+ *                                                          provider's latency
+ *
+ * plus gauges for the platform as a whole (see MetricsSources) and its
+ * start time. Every send attempt is counted, so one trigger to a webhook
+ * with recipients, escalation or retries can count several sends. Dry runs
+ * attempt nothing and count nothing.
+ *
+ * The webhook label is the name rather than the key, so a dashboard can
+ * show it as it is. Renaming a webhook therefore starts a new series.
+ *
+ * Counters live in memory and start from zero on every restart, which
+ * Prometheus's rate() and increase() expect. Recording is cheap and never
+ * throws, so the send path does not depend on the endpoint being up.
+ */
+export class NotifyMetrics {
+  private readonly counters = new Map<string, Map<string, number>>();
+  private readonly durations = new Map<string, { buckets: number[]; sum: number; count: number }>();
+  private readonly startedAt = Date.now() / 1000;
+  private server?: http.Server;
+
+  /**
+   * @param log - Platform logger
+   * @param config - The metrics block from the platform config
+   * @param sources - Platform state reported as gauges
+   */
+  constructor(
+    private readonly log: Logger,
+    private readonly config: MetricsConfig,
+    private readonly sources: MetricsSources,
+  ) {}
+
+  /**
+   * Count a trigger of a webhook's switch.
+   */
+  recordTrigger(webhook: string) {
+    this.increment('notify_alerts_triggers_total', { webhook });
+  }
+
+  /**
+   * Count a send the provider accepted, with its latency. A group send
+   * where some devices failed is still a successful send, and is counted
+   * as a partial failure as well.
+   *
+   * @param devicesFailed - The provider's failureCount, if it reports one
+   */
+  recordSuccess(webhook: string, latencyMs: number, devicesFailed?: number) {
+    this.increment('notify_alerts_sends_succeeded_total', { webhook });
+    if (typeof devicesFailed === 'number' && devicesFailed > 0) {
+      this.increment('notify_alerts_group_partial_failures_total', { webhook });
+      this.increment('notify_alerts_group_devices_failed_total', { webhook }, devicesFailed);
+    }
+    this.observeDuration(webhook, latencyMs);
+  }
+
+  /**
+   * Count a failed send, by what went wrong.
+   */
+  recordFailure(webhook: string, category: ErrorCategory, latencyMs: number) {
+    this.increment('notify_alerts_sends_failed_total', { webhook, category });
+    this.observeDuration(webhook, latencyMs);
+  }
+
+  /**
+   * Start listening.
+   */
+  start() {
+    const port = Number(this.config.port) || DEFAULT_METRICS_PORT;
+    const host = this.config.localhostOnly ? '127.0.0.1' : undefined;
+
+    this.server = http.createServer((req, res) => this.handle(req, res));
+
+    // As for the trigger endpoint: a bad port is logged, never thrown
+    this.server.on('error', (error) => {
+      this.log.error(`Metrics endpoint could not listen on ${host ?? '*'}:${port}:`, error.message);
+    });
+
+    this.server.listen(port, host, () => {
+      this.log.info(`Metrics endpoint listening on http://${host ?? '*'}:${port}/metrics`);
+    });
+  }
+
+  stop() {
+    this.server?.close();
+    this.server = undefined;
+  }
+
+  /**
+   * Everything, in the Prometheus text exposition format (version 0.0.4).
+   */
+  render(): string {
+    const lines: string[] = [];
+
+    const gauge = (name: string, help: string, value: number) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name} ${value}`);
+    };
+    gauge('notify_alerts_start_time_seconds', 'When the plugin started, as a Unix time.', this.startedAt);
+    gauge('notify_alerts_webhooks', 'Webhooks set up and ready to send.', this.sources.webhooks());
+    gauge('notify_alerts_failing_webhooks', 'Webhooks whose notifications are currently failing.',
+      this.sources.failingWebhooks());
+    gauge('notify_alerts_pending_retries', 'Failed sends waiting in the retry queue.', this.sources.pendingRetries());
+    gauge('notify_alerts_muted', '1 while the mute switch is on.', this.sources.muted() ? 1 : 0);
+
+    for (const [name, help] of COUNTER_HELP) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+      for (const [labels, value] of this.counters.get(name) ?? []) {
+        lines.push(`${name}{${labels}} ${value}`);
+      }
+    }
+
+    const histogram = 'notify_alerts_send_duration_seconds';
+    lines.push(`# HELP ${histogram} Time the provider took to answer a send.`, `# TYPE ${histogram} histogram`);
+    for (const [labels, duration] of this.durations) {
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        lines.push(`${histogram}_bucket{${labels},le="${bound}"} ${duration.buckets[index]}`);
+      });
+      lines.push(
+        `${histogram}_bucket{${labels},le="+Inf"} ${duration.count}`,
+        `${histogram}_sum{${labels}} ${duration.sum}`,
+        `${histogram}_count{${labels}} ${duration.count}`,
+      );
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Serve GET /metrics. Read-only and without a secret, like most
+   * exporters; localhostOnly is the way to keep it off the network.
+   */
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname !== '/metrics') {
+      res.statusCode = 404;
+      res.end('Not found. Use GET /metrics\n');
+      return;
+    }
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.statusCode = 405;
+      res.setHeader('Allow', 'GET, HEAD');
+      res.end('Use GET\n');
+      return;
+    }
+
+    let body: string;
+    try {
+      body = this.render();
+    } catch (error) {
+      this.log.error('Metrics endpoint request failed:', (error as Error).message);
+      res.statusCode = 500;
+      res.end('Internal error\n');
+      return;
+    }
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.end(req.method === 'HEAD' ? undefined : body);
+  }
+
+  private increment(name: string, labels: Labels, by = 1) {
+    let series = this.counters.get(name);
+    if (!series) {
+      series = new Map();
+      this.counters.set(name, series);
+    }
+    const key = formatLabels(labels);
+    series.set(key, (series.get(key) ?? 0) + by);
+  }
+
+  private observeDuration(webhook: string, latencyMs: number) {
+    const key = formatLabels({ webhook });
+    let duration = this.durations.get(key);
+    if (!duration) {
+      duration = { buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+      this.durations.set(key, duration);
+    }
+
+    const seconds = Math.max(0, latencyMs) / 1000;
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) {
+        duration!.buckets[index]++;
+      }
+    });
+    duration.sum += seconds;
+    duration.count++;
+  }
+}
+
+/**
+ * Every counter, in output order. Listed up front so each one is described
+ * in the output even before anything has been counted.
+ */
+const COUNTER_HELP: Array<[string, string]> = [
+  ['notify_alerts_triggers_total', 'Times a webhook\'s switch was triggered.'],
+  ['notify_alerts_sends_succeeded_total', 'Sends the delivery provider accepted.'],
+  ['notify_alerts_sends_failed_total', 'Sends that failed, by error category.'],
+  ['notify_alerts_group_partial_failures_total', 'Group sends that reached only some of the group\'s devices.'],
+  ['notify_alerts_group_devices_failed_total', 'Devices a group send did not reach.'],
+];
+
+/**
+ * Render labels as they appear between the braces: name="value", with the
+ * value escaped as the format requires. Webhook names are free text.
+ */
+function formatLabels(labels: Labels): string {
+  return Object.entries(labels)
+    .map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`)
+    .join(',');
+}
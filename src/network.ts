@@ -0,0 +1,237 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import tls from 'tls';
+import type { AxiosRequestConfig } from 'axios';
+
+import { ProxyError } from './errors';
+
+/**
+ * NetworkConfig - How outgoing requests reach the internet
+ *
+ * Platform-level settings, applied identically by the running plugin and
+ * the settings UI server, for hosts behind a filtering proxy or one that
+ * inspects TLS with its own root certificate.
+ *
+ * CONFIGURATION EXAMPLE:
+ * {
+ *   "proxyUrl": "http://proxy.corp.example:3128",
+ *   "noProxy": ["localhost", ".corp.example"],
+ *   "caFile": "/etc/ssl/certs/corp-root.pem"
+ * }
+ */
+export interface NetworkConfig {
+  proxyUrl?: string;     // http:// or https:// proxy, optionally with
+                        // user:password@. HTTPS requests are tunnelled
+                        // through it with CONNECT.
+  noProxy?: string[];    // Hosts to reach directly. "example.com" also
+                        // covers its subdomains; "*" disables the proxy.
+  caFile?: string;       // PEM file with extra root certificates, trusted
+                        // in addition to Node's built-in ones
+}
+
+/**
+ * Agent options with the pieces the tunnel needs to build its TLS socket.
+ */
+type TunnelConnectOptions = https.RequestOptions & tls.ConnectionOptions & { host: string; port: number };
+
+/**
+ * NetworkTransport - Applies a NetworkConfig to axios requests
+ *
+ * One instance is built from the platform config and handed to every
+ * request, whichever provider makes it. Without any settings it adds
+ * nothing, leaving axios's defaults (including the HTTPS_PROXY environment
+ * variable) exactly as they were.
+ *
+ * Errors are made specific on purpose. Behind a filtering proxy, "socket
+ * hang up" could mean the proxy is down, refused the destination, wants a
+ * password, or broke TLS; the fix is different for each. Proxy failures
+ * are thrown as ProxyError, and TLS failures keep Node's certificate error
+ * code, which describeError() in errors.ts turns into advice.
+ */
+export class NetworkTransport {
+  private readonly proxy?: URL;
+  private readonly noProxy: string[];
+  private readonly ca?: string[];
+  private httpsAgent?: https.Agent;
+  private directAgent?: https.Agent;
+
+  /**
+   * @throws Error with a message fit for the log when the proxy URL is
+   *   invalid or the CA file cannot be read
+   */
+  constructor(config: NetworkConfig = {}) {
+    if (config.proxyUrl) {
+      try {
+        this.proxy = new URL(config.proxyUrl);
+      } catch {
+        throw new Error(`proxyUrl "${config.proxyUrl}" is not a valid URL`);
+      }
+      if (this.proxy.protocol !== 'http:' && this.proxy.protocol !== 'https:') {
+        throw new Error(`proxyUrl "${config.proxyUrl}" must start with http:// or https://`);
+      }
+    }
+
+    this.noProxy = (Array.isArray(config.noProxy) ? config.noProxy : [])
+      .map(entry => String(entry).trim().toLowerCase())
+      .filter(Boolean);
+
+    if (config.caFile) {
+      let pem: string;
+      try {
+        pem = fs.readFileSync(config.caFile, 'utf8');
+      } catch (error) {
+        throw new Error(`Could not read caFile "${config.caFile}": ${(error as Error).message}`);
+      }
+      if (!pem.includes('-----BEGIN CERTIFICATE-----')) {
+        throw new Error(`caFile "${config.caFile}" does not contain a PEM certificate`);
+      }
+      this.ca = [...tls.rootCertificates, pem];
+    }
+  }
+
+  /**
+   * Whether any setting is in effect, for the startup log.
+   */
+  get configured(): boolean {
+    return this.proxy !== undefined || this.ca !== undefined;
+  }
+
+  /**
+   * The axios options for one request.
+   *
+   * @param url - The request's URL, for the noProxy check
+   */
+  requestConfig(url: string): Pick<AxiosRequestConfig, 'httpsAgent' | 'proxy'> {
+    if (!this.configured) {
+      return {};
+    }
+
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return {};
+    }
+
+    const viaProxy = this.proxy !== undefined && !this.bypassProxy(target.hostname);
+
+    if (target.protocol === 'http:') {
+      /**
+       * Plain http, only used for local relays and stub servers: the proxy
+       * is given the full URL instead of being asked for a tunnel. There is
+       * no TLS, so the CA setting does not apply.
+       */
+      return viaProxy ? { proxy: this.axiosProxy() } : { proxy: false };
+    }
+
+    // HTTPS: either tunnelled through the proxy, or direct with the CA bundle
+    if (viaProxy) {
+      this.httpsAgent ??= this.createTunnelAgent(this.proxy!);
+      return { httpsAgent: this.httpsAgent, proxy: false };
+    }
+
+    this.directAgent ??= new https.Agent({ keepAlive: true, ca: this.ca });
+    return { httpsAgent: this.directAgent, proxy: false };
+  }
+
+  /**
+   * Whether a host is on the noProxy list.
+   */
+  private bypassProxy(hostname: string): boolean {
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    return this.noProxy.some(entry => {
+      if (entry === '*') {
+        return true;
+      }
+      const domain = entry.replace(/^\*?\./, '');
+      return host === domain || host.endsWith(`.${domain}`);
+    });
+  }
+
+  /**
+   * The proxy in axios's own format, for plain http requests.
+   */
+  private axiosProxy(): AxiosRequestConfig['proxy'] {
+    const proxy = this.proxy!;
+    return {
+      protocol: proxy.protocol.replace(':', ''),
+      host: proxy.hostname,
+      port: Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80),
+      auth: proxy.username
+        ? { username: decodeURIComponent(proxy.username), password: decodeURIComponent(proxy.password) }
+        : undefined,
+    };
+  }
+
+  /**
+   * An HTTPS agent that opens each connection as a CONNECT tunnel through
+   * the proxy, then runs TLS to the real host inside it, so certificate
+   * checks are against the destination (and caFile) rather than the proxy.
+   */
+  private createTunnelAgent(proxy: URL): https.Agent {
+    const agent = new https.Agent({ keepAlive: true, ca: this.ca });
+    const proxyName = `${proxy.hostname}:${proxy.port || (proxy.protocol === 'https:' ? 443 : 80)}`;
+    const authorization = proxy.username
+      ? 'Basic ' + Buffer.from(`${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`).toString('base64')
+      : undefined;
+    const ca = this.ca;
+
+    /**
+     * Node's Agent accepts a createConnection that answers through the
+     * callback, which is what lets the tunnel be set up asynchronously.
+     */
+    (agent as unknown as {
+      createConnection: (options: TunnelConnectOptions, callback: (error: Error | null, socket?: net.Socket) => void) => void;
+    }).createConnection = (options, callback) => {
+      const destination = `${options.host}:${options.port}`;
+      const request = (proxy.protocol === 'https:' ? https : http).request({
+        host: proxy.hostname,
+        port: proxy.port || undefined,
+        method: 'CONNECT',
+        path: destination,
+        headers: {
+          Host: destination,
+          ...(authorization ? { 'Proxy-Authorization': authorization } : {}),
+        },
+        ca,
+      });
+
+      let settled = false;
+      const fail = (error: Error) => {
+        if (!settled) {
+          settled = true;
+          callback(error);
+        }
+      };
+
+      request.once('connect', (response, socket) => {
+        if (response.statusCode !== 200) {
+          socket.destroy();
+          const hint = response.statusCode === 407
+            ? 'it requires authentication; put user:password@ in proxyUrl'
+            : `it answered ${response.statusCode} ${response.statusMessage ?? ''}`.trim();
+          fail(new ProxyError(`Proxy ${proxyName} refused to connect to ${destination}: ${hint}`, response.statusCode));
+          return;
+        }
+
+        settled = true;
+        callback(null, tls.connect({
+          socket,
+          servername: options.servername || options.host,
+          ca,
+          rejectUnauthorized: options.rejectUnauthorized,
+        }));
+      });
+
+      request.once('error', (error: NodeJS.ErrnoException) => {
+        fail(new ProxyError(`Could not reach proxy ${proxyName}: ${error.code ?? error.message}`));
+      });
+
+      request.end();
+    };
+
+    return agent;
+  }
+}
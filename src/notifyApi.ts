@@ -0,0 +1,412 @@
+import axios, { AxiosResponse } from 'axios';
+
+import { NOTIFY_API_BASE_URL, REQUEST_TIMEOUT_MS } from './settings';
+import { NotifyApiError } from './errors';
+import type { WebhookConfig } from './platform';
+import type { NotifyPayload } from './webhookAccessory';
+import type { NetworkTransport } from './network';
+
+export interface NotifyApiClientOptions {
+  baseUrl?: string;      // Default: NOTIFY_API_BASE_URL
+  timeoutMs?: number;    // Default: REQUEST_TIMEOUT_MS
+  transport?: NetworkTransport; // Proxy and CA settings. Default: none
+}
+
+/**
+ * NotifyRequest - One request to the API, in axios's terms
+ */
+export interface NotifyRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  params: Record<string, string>;
+  headers?: Record<string, string>;
+  data?: unknown;
+}
+
+/**
+ * NotifySendResult - A send the API accepted
+ *
+ * A group send reports per-device results. A partial failure is still a
+ * success at the HTTP level, so failureCount must be inspected.
+ */
+export interface NotifySendResult {
+  type: 'device' | 'group' | 'unknown';
+  status: number;          // HTTP status, always 200 today
+  deviceCount?: number;
+  successCount?: number;
+  failureCount?: number;   // Above zero: only part of the group received it
+  data: unknown;           // Full response body, for debug logging only
+}
+
+/**
+ * NotifyLinkResult - What an ID and token pair resolves to
+ */
+export interface NotifyLinkResult {
+  type: 'device' | 'group' | 'unknown';
+  name: string;            // Device or group name, e.g. "iPhone Air"
+  detail: string;          // e.g. "Device running iOS 26.1", "Group with 3 devices"
+  memberCount?: number;    // Groups only
+}
+
+/**
+ * The configuration fields that make up a notification, already rendered
+ * (see renderTemplateFields in template.ts).
+ */
+export type NotifyPayloadFields = Pick<WebhookConfig,
+  'text' | 'title' | 'groupType' | 'iconUrl' | 'iconURL' | 'imageUrl' | 'timeSensitive'>;
+
+/**
+ * Build the request payload from a webhook's rendered fields.
+ *
+ * Shared by the accessory and the settings UI server's Test button, so
+ * that what the Test button sends is what the switch sends.
+ *
+ * Only 'text' is required. Optional fields are omitted entirely rather
+ * than sent as null, keeping the payload minimal.
+ *
+ * Field names are case-sensitive: 'iconUrl' and 'imageUrl' both end in
+ * a lowercase "rl".
+ */
+export function buildNotifyPayload(fields: NotifyPayloadFields): NotifyPayload {
+  const payload: NotifyPayload = {
+    text: fields.text,
+  };
+
+  if (fields.title) {
+    payload.title = fields.title;
+  }
+
+  // Threading identifier. Notifications sharing a groupType collapse into
+  // one thread on the device. This does not affect group delivery.
+  if (fields.groupType) {
+    payload.groupType = fields.groupType;
+  }
+
+  /**
+   * Sender avatar icon.
+   *
+   * Accept both spellings: 'iconUrl' matches the API and is preferred for
+   * new configs, while 'iconURL' is the historical key this plugin shipped
+   * with. Reading both means existing configs keep working untouched.
+   */
+  const iconUrl = fields.iconUrl || fields.iconURL;
+  if (iconUrl) {
+    payload.iconUrl = iconUrl;
+  }
+
+  // Hero image shown inside the expanded notification
+  if (fields.imageUrl) {
+    payload.imageUrl = fields.imageUrl;
+  }
+
+  // Allow the notification to break through Focus and Do Not Disturb
+  if (fields.timeSensitive) {
+    payload.timeSensitive = true;
+  }
+
+  return payload;
+}
+
+/**
+ * Check an apiBaseUrl override and put it in the form the client expects.
+ *
+ * Plain http is accepted for local relays and stub servers. Anything that
+ * is not an http(s) URL without a query string is rejected, since the
+ * endpoint paths are appended to it.
+ *
+ * @returns The URL without a trailing slash
+ * @throws Error with a message fit for the log and the settings screen
+ */
+export function normalizeApiBaseUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`"${value}" is not a valid URL`);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`"${value}" must start with https:// or http://`);
+  }
+
+  if (url.search || url.hash) {
+    throw new Error(`"${value}" must not contain a query string or fragment`);
+  }
+
+  return url.toString().replace(/\/+$/, '');
+}
+
+/**
+ * NotifyApiClient - The one implementation of the Notify API
+ *
+ * Used by the running plugin (through providers/notify.ts) and by the
+ * settings UI server (homebridge-ui/server.js), so the Test and Verify
+ * buttons make exactly the requests a real trigger makes and report
+ * failures in the same words.
+ *
+ * Endpoints:
+ * - POST /notify-json/{id}  Send a notification (device or group)
+ * - GET  /link              Validate an ID + token pair without sending
+ *
+ * API documentation: https://getnotifyapp.com/apidocs/
+ *
+ * ERRORS:
+ * - A response that is not a success is thrown as NotifyApiError, with the
+ *   APNs reason attached when Apple rejected the delivery. errorCategory()
+ *   in errors.ts sorts these into categories for callers that need to react
+ *   rather than just log.
+ * - Network failures, timeouts and 5xx are left as the axios error.
+ *
+ * Redirects are never followed. The token travels in the query string, so
+ * following a cross-host redirect would hand the credential to whatever
+ * host the redirect names. A 3xx is reported as the endpoint having moved.
+ */
+export class NotifyApiClient {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly transport?: NetworkTransport;
+
+  constructor(options: NotifyApiClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || NOTIFY_API_BASE_URL).replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUT_MS;
+    this.transport = options.transport;
+  }
+
+  /**
+   * Send a notification.
+   *
+   * Example request:
+   * POST https://push.getnotifyapp.com/notify-json/ABC12345?token=XYZ789TOKEN123
+   * Content-Type: application/json
+   * {
+   *   "text": "Server CPU at 95%!",
+   *   "title": "Alert",
+   *   "iconUrl": "https://icons.getnotifyapp.com/icon123.png",
+   *   "imageUrl": "https://example.com/graph.png",
+   *   "groupType": "monitoring",
+   *   "timeSensitive": true
+   * }
+   *
+   * Device success response (200):
+   * { "success": true, "type": "device", "deviceId": "ABC12345",
+   *   "message": "Notification sent successfully" }
+   *
+   * Group success response (200):
+   * { "success": true, "type": "group", "groupId": "GRP45678",
+   *   "deviceCount": 3, "successCount": 2, "failureCount": 1, "results": [...] }
+   *
+   * Error responses: 400 missing text or invalid JSON, 403 invalid token,
+   * 404 ID not found, 415 wrong Content-Type, 429 rate limited.
+   *
+   * @param id - Device, web device or Group ID. The API tells them apart by
+   *   prefix.
+   * @param token - Notify API token
+   * @param payload - Rendered notification
+   * @throws NotifyApiError, or the axios error for a network failure,
+   *   timeout or 5xx
+   */
+  async send(id: string, token: string, payload: NotifyPayload): Promise<NotifySendResult> {
+    const response = await this.perform(this.sendRequest(id, token, payload));
+
+    if (response.status !== 200) {
+      throw rejection(response);
+    }
+
+    const data = response.data ?? {};
+    return {
+      type: data.type === 'device' || data.type === 'group' ? data.type : 'unknown',
+      status: response.status,
+      deviceCount: numberOrUndefined(data.deviceCount),
+      successCount: numberOrUndefined(data.successCount),
+      failureCount: numberOrUndefined(data.failureCount),
+      data,
+    };
+  }
+
+  /**
+   * Resolve an ID and token to the device or group they belong to, without
+   * sending anything.
+   *
+   * This catches the common configuration mistakes (wrong token, typo in
+   * the ID, device ID pasted where a group ID belongs). What it does NOT
+   * prove is that notifications are deliverable: a device whose permission
+   * was revoked or that is muted still resolves. Only a send proves that.
+   *
+   * @throws NotifyApiError (404 when nothing matches the pair), or the
+   *   axios error for a network failure, timeout or 5xx
+   */
+  async link(id: string, token: string): Promise<NotifyLinkResult> {
+    const response = await this.perform(this.buildRequest('GET', '/link', { id, token }));
+
+    if (response.status === 404) {
+      throw new NotifyApiError('No device or group matches that ID and token combination.', 404);
+    }
+
+    if (response.status !== 200 || !response.data?.success) {
+      throw rejection(response);
+    }
+
+    return describeLinkTarget(response.data);
+  }
+
+  /**
+   * The request send() makes, without making it. Used by dry runs to log
+   * exactly what would have gone out.
+   */
+  sendRequest(id: string, token: string, payload: NotifyPayload): NotifyRequest {
+    /**
+     * The ID goes in the path, so it must be URL-encoded. Without this an
+     * ID containing a space or slash (easy to introduce by pasting) would
+     * produce a malformed URL rather than a clean 404 from the API.
+     */
+    return this.buildRequest('POST', `/notify-json/${encodeURIComponent(id)}`, { token }, payload);
+  }
+
+  private buildRequest(method: 'GET' | 'POST', path: string, params: Record<string, string>, body?: unknown): NotifyRequest {
+    return {
+      method,
+      url: `${this.baseUrl}${path}`,
+      params,
+      headers: body === undefined ? undefined : {
+        // Required. The API returns 415 without it.
+        'Content-Type': 'application/json',
+      },
+      data: body,
+    };
+  }
+
+  /**
+   * The request itself. 3xx and 4xx come back as responses to be
+   * classified by the caller; axios throws only on 5xx and network errors.
+   */
+  private perform(request: NotifyRequest) {
+    return axios.request({
+      ...request,
+      ...this.transport?.requestConfig(request.url),
+      timeout: this.timeoutMs,
+      maxRedirects: 0,
+      validateStatus: (status) => status < 500,
+    });
+  }
+}
+
+/**
+ * Build the NotifyApiError for a response that is not a success.
+ */
+function rejection(response: AxiosResponse): NotifyApiError {
+  /**
+   * A 3xx means the API endpoint has moved. Since redirects are not
+   * followed, report it as an actionable message naming the new location
+   * rather than a bare status code, because the fix is to update the
+   * plugin rather than anything in the user's configuration.
+   */
+  if (response.status >= 300 && response.status < 400) {
+    const location = response.headers?.location;
+    return new NotifyApiError(
+      'The Notify API endpoint has moved' +
+        (location ? ` to ${location}` : '') +
+        '. Update homebridge-notify-alerts to the latest version.',
+      response.status,
+    );
+  }
+
+  if (response.status === 429) {
+    return new NotifyApiError('The Notify API is rate limiting this address (HTTP 429)', 429);
+  }
+
+  let message = `API returned status ${response.status}: ${response.statusText}`;
+  const data = response.data;
+
+  /**
+   * Append whatever detail the API gave us. The 'error' field often just
+   * repeats the HTTP status text ("Forbidden"), so it is skipped when it
+   * adds nothing, leaving the human-readable 'message' to do the work.
+   */
+  if (data && typeof data === 'object') {
+    if (data.error && data.error !== response.statusText) {
+      message += ` - ${data.error}`;
+    }
+    if (data.message) {
+      message += ` - ${data.message}`;
+    }
+
+    /**
+     * A delivery rejected by Apple comes back as a generic "Failed to send
+     * notification" with the real reason buried in apnsError. That reason
+     * is the only actionable part, so surface it. BadDeviceToken in
+     * particular means the device needs to be re-registered in the Notify
+     * app, which no amount of checking the config will fix.
+     */
+    const apnsReason = data.apnsError?.reason;
+    if (apnsReason) {
+      message += ` (Apple rejected the delivery: ${apnsReason})`;
+      return new NotifyApiError(message, response.status, undefined, apnsReason);
+    }
+  } else if (typeof data === 'string' && data.trim()) {
+    message += ` - ${data.trim().slice(0, 200)}`;
+  }
+
+  return new NotifyApiError(message, response.status);
+}
+
+/**
+ * Turn a successful /link response into something worth showing a user.
+ *
+ * Surfacing the name is the whole point: an 8-character ID is meaningless
+ * on its own, and seeing "iPhone Air" is what confirms the right target.
+ *
+ * Two response shapes are accepted. The live API returns the target's
+ * fields flat on the response body:
+ *   { success, type: "device", id, name, platform, os_version, ... }
+ * while the published documentation shows them nested under a "device" or
+ * "group" key. Reading both means this keeps working either way.
+ */
+function describeLinkTarget(data: Record<string, unknown>): NotifyLinkResult {
+  if (data.type === 'group') {
+    const group = recordOrUndefined(data.group) ?? data;
+    const memberCount = numberOrUndefined(group.member_count);
+    return {
+      type: 'group',
+      name: textOrUndefined(group.name) ?? textOrUndefined(group.id) ?? 'Group',
+      detail: memberCount !== undefined
+        ? `Group with ${memberCount} device${memberCount === 1 ? '' : 's'}`
+        : 'Group',
+      memberCount,
+    };
+  }
+
+  const device = recordOrUndefined(data.device) ?? data;
+  const name = textOrUndefined(device.name) ?? textOrUndefined(device.id);
+  if (name) {
+    const platform = [textOrUndefined(device.platform), textOrUndefined(device.os_version)]
+      .filter(Boolean).join(' ');
+    return {
+      type: 'device',
+      name,
+      detail: platform ? `Device running ${platform}` : 'Device',
+    };
+  }
+
+  return { type: 'unknown', name: 'Verified', detail: '' };
+}
+
+function recordOrUndefined(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : undefined;
+}
+
+/**
+ * A field worth showing: a non-empty string, or a number such as an OS
+ * version the API sends unquoted.
+ */
+function textOrUndefined(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
@@ -0,0 +1,386 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Logger } from 'homebridge';
+
+import type { NotifyPayload } from './webhookAccessory';
+import { isRetryableError } from './errors';
+
+/**
+ * OutboxEntry - One failed delivery waiting to be retried
+ *
+ * Stored as JSON in the plugin's outbox file. The token is deliberately NOT
+ * part of an entry: the webhook's key is the link back to the configuration,
+ * and the credential is looked up from there at retry time. Keying by the
+ * key rather than the name means renaming a webhook keeps its retries.
+ */
+export interface OutboxEntry {
+  id: string;               // Unique ID for this entry
+  webhook: string;          // Webhook name when queued, for the log
+  key?: string;             // Webhook identity (see webhookIdentity()).
+                            // Absent in entries queued by older versions,
+                            // which are matched by name instead
+  payload: NotifyPayload;   // Rendered body, replayed exactly as built
+  recipient?: string;       // Recipient ID, for a webhook with recipients.
+                            // Absent for the webhook's own id
+  attempts: number;         // Attempts made so far, the original send included
+  firstAttemptAt: number;   // Epoch ms of the original send
+  nextAttemptAt: number;    // Epoch ms the next retry is due
+  lastError?: string;       // Most recent failure, for the log
+}
+
+/**
+ * RetryPolicy - Limits for one webhook's queued deliveries
+ */
+export interface RetryPolicy {
+  maxAttempts: number;      // Total attempts, the original send included
+  maxAgeMinutes: number;    // Give up once the alert is this old
+}
+
+/**
+ * Callbacks the outbox needs from the platform.
+ *
+ * Kept as plain functions so the outbox never has to know about accessories.
+ */
+export interface OutboxHandlers {
+  /**
+   * Retry policy for a webhook, or undefined when the webhook is no longer
+   * configured (the entry is then dropped). Webhooks are named here by
+   * identity; see identityOf().
+   */
+  policyFor(webhook: string): RetryPolicy | undefined;
+
+  /**
+   * Send a payload for a webhook, by identity. Resolves on success, rejects
+   * on failure with the same errors as a live send. Resolves with false
+   * when the platform chose not to send it, for example while muted; the
+   * entry is then dropped, and the platform has logged why.
+   */
+  deliver(webhook: string, payload: NotifyPayload, recipient?: string): Promise<unknown>;
+
+  /**
+   * Turn an error into a log-safe message (no token).
+   */
+  describeError(error: unknown): string;
+}
+
+/**
+ * Backoff tuning.
+ *
+ * The first retry comes after roughly 30 seconds, doubling each time up to
+ * an hour. Full-width jitter on the top half of each delay keeps several
+ * webhooks that failed in the same outage from all retrying in the same
+ * instant and tripping the API rate limit when the connection comes back.
+ */
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+
+export const OUTBOX_FILE_NAME = 'notify-alerts-outbox.json';
+
+/**
+ * NotifyOutbox - Durable retry queue for failed deliveries
+ *
+ * When a send fails for a reason that might clear up by itself (see
+ * isRetryableError), the rendered payload is written to a JSON file in the
+ * Homebridge storage path and retried with exponential backoff. Because the
+ * queue lives on disk, an alert raised during an internet outage still goes
+ * out after Homebridge restarts.
+ *
+ * HOW IT WORKS:
+ * 1. enqueue() records the failed payload with its next retry time
+ * 2. A single timer is kept armed for the earliest due entry
+ * 3. When it fires, due entries are retried one at a time
+ * 4. Success or a permanent failure removes the entry; a transient failure
+ *    pushes its next attempt further out
+ * 5. Entries past their webhook's maxAttempts or maxAgeMinutes are dropped
+ *    with an error in the log
+ *
+ * The file is rewritten after every change. It only ever holds a handful of
+ * entries, and writing synchronously means a crash cannot lose an alert
+ * that was already reported as queued.
+ */
+export class NotifyOutbox {
+  private entries: OutboxEntry[] = [];
+  private timer?: NodeJS.Timeout;
+  private flushing = false;
+  private stopped = false;
+
+  private readonly filePath: string;
+
+  /**
+   * @param log - Platform logger
+   * @param storagePath - Homebridge storage directory (api.user.storagePath())
+   * @param handlers - Lookups and delivery supplied by the platform
+   */
+  constructor(
+    private readonly log: Logger,
+    storagePath: string,
+    private readonly handlers: OutboxHandlers,
+  ) {
+    this.filePath = path.join(storagePath, OUTBOX_FILE_NAME);
+  }
+
+  /**
+   * Number of deliveries currently waiting.
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Load entries left over from a previous run and schedule them.
+   *
+   * A missing file is the normal case. A corrupt one is logged and set
+   * aside rather than deleted, so nothing is destroyed that a user might
+   * want to inspect.
+   */
+  load() {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        this.entries = Array.isArray(parsed) ? parsed.filter(isOutboxEntry) : [];
+      }
+    } catch (error) {
+      const aside = `${this.filePath}.corrupt-${Date.now()}`;
+      this.log.error(`Could not read the notification outbox, moving it to ${aside}:`, (error as Error).message);
+      try {
+        fs.renameSync(this.filePath, aside);
+      } catch {
+        // Nothing more can be done; the next save overwrites it.
+      }
+      this.entries = [];
+    }
+
+    if (this.entries.length > 0) {
+      this.log.info(`Resuming ${this.entries.length} queued notification(s) from the outbox`);
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Queue a failed delivery for retry.
+   *
+   * @param key - Webhook identity (see webhookIdentity())
+   * @param webhook - Webhook name, for the log
+   * @param payload - Rendered payload that failed
+   * @param error - The failure, recorded for the log
+   * @param recipient - Recipient ID, when the failed send was to one of the
+   *   webhook's recipients rather than its own id
+   * @returns false when retries are disabled for the webhook, so the caller
+   *   knows the alert was not kept
+   */
+  enqueue(key: string, webhook: string, payload: NotifyPayload, error: unknown, recipient?: string): boolean {
+    const policy = this.handlers.policyFor(key);
+    if (!policy || policy.maxAttempts <= 1) {
+      return false;
+    }
+
+    const now = Date.now();
+    this.entries.push({
+      id: randomUUID(),
+      webhook,
+      key,
+      payload,
+      recipient,
+      attempts: 1,
+      firstAttemptAt: now,
+      nextAttemptAt: now + backoffDelay(1),
+      lastError: this.handlers.describeError(error),
+    });
+
+    this.save();
+    this.schedule();
+    return true;
+  }
+
+  /**
+   * Stop the retry timer. Called on Homebridge shutdown; queued entries stay
+   * on disk for the next start.
+   */
+  stop() {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Arm the timer for the earliest due entry.
+   */
+  private schedule() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.stopped || this.flushing || this.entries.length === 0) {
+      return;
+    }
+
+    const next = Math.min(...this.entries.map(entry => entry.nextAttemptAt));
+    const delay = Math.max(0, next - Date.now());
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush().catch((error) => {
+        this.log.error('Notification outbox flush failed:', (error as Error).message);
+      });
+    }, delay);
+  }
+
+  /**
+   * Retry every entry that is due.
+   *
+   * Entries are sent one at a time. After an outage there may be several
+   * queued, and firing them all at once is the surest way to be rate
+   * limited straight back into the queue.
+   */
+  private async flush() {
+    this.flushing = true;
+
+    try {
+      const due = this.entries.filter(entry => entry.nextAttemptAt <= Date.now());
+
+      for (const entry of due) {
+        if (this.stopped) {
+          break;
+        }
+        await this.retry(entry);
+      }
+    } finally {
+      this.flushing = false;
+      this.save();
+      this.schedule();
+    }
+  }
+
+  /**
+   * Make one retry attempt for an entry and update the queue accordingly.
+   */
+  private async retry(entry: OutboxEntry) {
+    const policy = this.handlers.policyFor(identityOf(entry));
+
+    if (!policy) {
+      this.log.warn(`Dropping queued notification for "${entry.webhook}": the webhook is no longer configured`);
+      this.remove(entry);
+      return;
+    }
+
+    const ageMinutes = (Date.now() - entry.firstAttemptAt) / 60000;
+    if (ageMinutes > policy.maxAgeMinutes) {
+      this.log.error(
+        `Giving up on queued notification for ${describeEntry(entry)} after ${Math.round(ageMinutes)} minutes ` +
+          `(limit ${policy.maxAgeMinutes}). Last error: ${entry.lastError}`,
+      );
+      this.remove(entry);
+      return;
+    }
+
+    entry.attempts += 1;
+    this.log.debug(`Retrying queued notification for ${describeEntry(entry)} (attempt ${entry.attempts})`);
+
+    try {
+      const sent = await this.handlers.deliver(identityOf(entry), entry.payload, entry.recipient);
+      if (sent !== false) {
+        this.log.info(`Delivered queued notification for ${describeEntry(entry)} on attempt ${entry.attempts}`);
+      }
+      this.remove(entry);
+    } catch (error) {
+      entry.lastError = this.handlers.describeError(error);
+
+      if (!isRetryableError(error)) {
+        this.log.error(`Queued notification for ${describeEntry(entry)} was rejected, not retrying: ${entry.lastError}`);
+        this.remove(entry);
+        return;
+      }
+
+      if (entry.attempts >= policy.maxAttempts) {
+        this.log.error(
+          `Giving up on queued notification for ${describeEntry(entry)} after ${entry.attempts} attempts. ` +
+            `Last error: ${entry.lastError}`,
+        );
+        this.remove(entry);
+        return;
+      }
+
+      entry.nextAttemptAt = Date.now() + backoffDelay(entry.attempts);
+      this.log.warn(
+        `Retry ${entry.attempts} for ${describeEntry(entry)} failed (${entry.lastError}); ` +
+          `next attempt in ${Math.round((entry.nextAttemptAt - Date.now()) / 1000)} seconds`,
+      );
+    }
+  }
+
+  private remove(entry: OutboxEntry) {
+    const index = this.entries.indexOf(entry);
+    if (index !== -1) {
+      this.entries.splice(index, 1);
+    }
+  }
+
+  /**
+   * Write the queue to disk atomically.
+   *
+   * Writes to a temporary file and renames it over the real one, so a crash
+   * mid-write leaves the previous version intact rather than half a file.
+   */
+  private save() {
+    try {
+      if (this.entries.length === 0) {
+        if (fs.existsSync(this.filePath)) {
+          fs.unlinkSync(this.filePath);
+        }
+        return;
+      }
+
+      const temp = `${this.filePath}.tmp`;
+      fs.writeFileSync(temp, JSON.stringify(this.entries, null, 2));
+      fs.renameSync(temp, this.filePath);
+    } catch (error) {
+      this.log.error('Could not save the notification outbox:', (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Delay before the next attempt, given how many have already been made.
+ *
+ * Exponential from BASE_DELAY_MS, capped at MAX_DELAY_MS, with the top half
+ * of the delay randomised.
+ */
+function backoffDelay(attempts: number): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Accept only well-formed entries from disk, so a hand-edited or partially
+ * written file cannot crash the retry loop.
+ */
+function isOutboxEntry(value: unknown): value is OutboxEntry {
+  const entry = value as OutboxEntry;
+  return !!entry
+    && typeof entry.webhook === 'string'
+    && !!entry.payload && typeof entry.payload.text === 'string'
+    && typeof entry.attempts === 'number'
+    && typeof entry.firstAttemptAt === 'number'
+    && typeof entry.nextAttemptAt === 'number';
+}
+
+/**
+ * The webhook an entry belongs to, as OutboxHandlers look it up: its
+ * identity, or for an entry queued before entries had one, its name.
+ */
+function identityOf(entry: OutboxEntry): string {
+  return typeof entry.key === 'string' ? entry.key : entry.webhook;
+}
+
+/**
+ * Name an entry in the log: the webhook, plus the recipient when the entry
+ * is for one of several.
+ */
+function describeEntry(entry: OutboxEntry): string {
+  return entry.recipient ? `"${entry.webhook}" to ${entry.recipient}` : `"${entry.webhook}"`;
+}
@@ -8,8 +8,42 @@ import {
   Characteristic,
 } from 'homebridge';
 
-import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
-import { NotifyWebhookAccessory } from './webhookAccessory';
+import {
+  PLATFORM_NAME,
+  PLUGIN_NAME,
+  DEFAULT_RETRY_MAX_ATTEMPTS,
+  DEFAULT_RETRY_MAX_AGE_MINUTES,
+  NOTIFY_API_BASE_URL,
+} from './settings';
+import {
+  NotifyWebhookAccessory,
+  NotifyPayload,
+  NotifyTarget,
+  SwitchMode,
+  SwitchState,
+  FAULT_SENSOR_SUFFIX,
+  MOMENTARY_AUTO_OFF_MS,
+} from './webhookAccessory';
+import { NotifyOutbox, RetryPolicy } from './outbox';
+import { DeliveryHistory } from './history';
+import { describeError } from './errors';
+import { NotifyTriggerServer, TriggerServerConfig } from './triggerServer';
+import { MetricsConfig, NotifyMetrics } from './metrics';
+import { CooldownMode } from './cooldown';
+import { ScheduleRule, validateScheduleRule } from './schedule';
+import { ProviderContext, ProviderName } from './providers';
+import { NotifyApiClient, normalizeApiBaseUrl } from './notifyApi';
+import { NetworkTransport } from './network';
+import {
+  SetupProblem,
+  StartupChecks,
+  StartupNotice,
+  formatDiagnostic,
+  validateWebhook,
+  webhookIdentity,
+} from './validation';
+import { DigestConfig, NotifyDigests, validateDigestConfig } from './digest';
+import { MessageVariant, VariantMode } from './variants';
 
 /**
  * WebhookConfig Interface
@@ -48,16 +82,26 @@ export interface WebhookConfig {
 
   name: string;          // Display name for the HomeKit switch
                         // Shows in Home app, used for Siri commands
-                        // Must be unique: the accessory identity is derived from it
+                        // Must be unique. Without a key (below) the
+                        // accessory identity is derived from it too
                         // Example: "Front Door Alert", "Garage Open"
 
+  key?: string;          // Immutable identity for the accessory, so the
+                        // name can change without HomeKit losing the
+                        // switch. Written by the settings UI, not meant to
+                        // be edited. Webhooks that existed before keys get
+                        // their name at that moment, which reproduces the
+                        // UUID their accessory already has. Must be unique.
+
   token: string;         // Notify API authentication token
                         // Get this from the Notify app settings
                         // Keep this secret - it authenticates your requests
+                        // May come from a profile instead (see below)
 
   text: string;          // The notification message content
                         // What the user sees in the notification
-                        // Supports emojis and Unicode
+                        // Supports emojis and Unicode, and template
+                        // placeholders such as {{time}} (see template.ts)
                         // Body limit is 16 KB; the push itself shows a
                         // shortened form and the full text is kept in History
 
@@ -66,6 +110,14 @@ export interface WebhookConfig {
                         // Web devices: "WB" + 14 characters
                         // Group IDs: "GRP" + 5 characters (e.g., "GRP56789")
                         // The API auto-detects the type based on prefix
+                        // May come from a profile instead (see below)
+
+  profile?: string;      // Name of an entry in the platform's "profiles"
+                        // list to take the id and token from, so a token
+                        // is written down once instead of on every webhook.
+                        // An id or token set on the webhook itself wins.
+                        // Resolved by discoverDevices(); the accessory only
+                        // ever sees the resulting id and token.
 
   // OPTIONAL FIELDS - Enhance the notification but aren't required
 
@@ -105,6 +157,163 @@ export interface WebhookConfig {
                         // it to break through Focus and Do Not Disturb.
                         // Reserve this for genuine alerts (leaks, security,
                         // smoke). Overuse trains people to ignore it.
+
+  retryMaxAttempts?: number; // Total delivery attempts for a send that fails
+                        // for a temporary reason (network, timeout, 5xx,
+                        // rate limit), the original included. Failed sends
+                        // wait in a durable outbox between attempts.
+                        // 1 disables retries. Default: 10.
+
+  retryMaxAgeMinutes?: number; // Stop retrying once the alert is this many
+                        // minutes old, however many attempts remain.
+                        // Default: 60.
+
+  allowOverrides?: Array<'text' | 'title' | 'imageUrl'>;
+                        // Fields a caller of the inbound trigger endpoint
+                        // may replace per request. Empty or absent means the
+                        // webhook can still be fired over HTTP, but only
+                        // with its configured message.
+
+  cooldownSeconds?: number; // Quiet window after a send. Further triggers
+                        // within it are dropped or deferred (see below)
+                        // instead of buzzing every phone again.
+                        // Default: 0, no cooldown.
+
+  cooldownMode?: CooldownMode; // "drop" (default) discards repeats inside
+                        // the window; "defer" sends once when it ends.
+
+  cooldownCoalesce?: boolean; // Note the repeats in the next message that
+                        // does go out, e.g. "Front door motion (5 times in
+                        // the last 3 min)".
+
+  mode?: SwitchMode;     // "momentary" (default): a button that turns itself
+                        // off after 1 second. "timed": stays on for
+                        // autoOffSeconds. "stateful": a real toggle whose
+                        // state survives restarts.
+
+  autoOffSeconds?: number; // How long a timed switch stays on. Default: 60.
+
+  onText?: string;       // Timed/stateful: message sent when the switch turns
+  onTitle?: string;      // on. Fall back to text and title when unset.
+
+  offText?: string;      // Timed/stateful: message sent when the switch turns
+  offTitle?: string;     // off. Without offText, turning off is silent.
+                        // offTitle falls back to title.
+
+  escalateIntervalMinutes?: number; // Resend every this many minutes until
+                        // the switch is turned off in HomeKit. The switch
+                        // stays on while escalating. Unset or 0: no escalation.
+
+  escalateMaxRepeats?: number; // Give up after this many resends. Default: 10.
+
+  escalateAfterRepeats?: number; // The settings below apply to resends after
+                        // the first this-many. Default: 0, every resend.
+
+  escalateTimeSensitive?: boolean; // Force escalated resends time sensitive.
+
+  escalateId?: string;   // Send escalated resends to this ID instead, for
+                        // example a group covering the whole family.
+
+  escalateToken?: string; // Token for escalateId, when it differs from token.
+
+  schedules?: ScheduleRule[]; // Quiet hours and delivery windows for this
+                        // webhook. Applied together with the platform's
+                        // own schedules. See schedule.ts.
+
+  ignorePlatformSchedules?: boolean; // Skip the platform-level schedules,
+                        // e.g. so a smoke alarm ignores household quiet hours.
+
+  group?: string;        // Show this switch on a shared accessory with every
+                        // other webhook naming the same group, instead of
+                        // as an accessory of its own. One Home app tile and
+                        // one room assignment for a set of related alerts.
+                        // Nothing to do with Notify groups (GRP IDs).
+
+  faultSensor?: boolean; // Add a "<name> Delivery" contact sensor that opens
+                        // while this webhook's notifications are failing,
+                        // for HomeKit automations that fall back to
+                        // something else. StatusFault on the switch itself
+                        // is reported either way.
+
+  recipients?: RecipientConfig[]; // Further people to send the same alert
+                        // to, each with their own Notify account. Sent in
+                        // parallel with the webhook's own id.
+
+  provider?: ProviderName; // Delivery service: "notify" (default), "ntfy",
+                        // "pushover" or "http". Changes what id and token
+                        // mean; see providers/ and each provider's labels.
+
+  providerUrl?: string;  // ntfy: server (default https://ntfy.sh).
+                        // pushover: API endpoint (default Pushover's own).
+                        // http: where to send. Required.
+
+  httpMethod?: 'POST' | 'PUT'; // http only. Default: POST.
+
+  httpHeaders?: Array<{ name: string; value: string }>; // http only.
+                        // Extra request headers, e.g. Authorization.
+
+  httpBody?: string;     // http only. Body template with {{text}},
+                        // {{title}}, {{imageUrl}} and friends. Default: the
+                        // notification as JSON. See providers/http.ts.
+
+  dryRun?: boolean;      // Log this webhook's requests instead of sending
+                        // them, while wiring up a new scene. The platform's
+                        // dryRun covers every webhook.
+
+  variants?: MessageVariant[]; // Alternative wordings for the "on" message,
+                        // one chosen per send, so a repeating reminder
+                        // does not read the same every time. A variant's
+                        // text, title and imageUrl replace the webhook's;
+                        // fields it leaves out keep the webhook's own.
+
+  variantMode?: VariantMode; // How variants are chosen: "random" (default),
+                        // "weighted" by each variant's weight, or
+                        // "round-robin" in list order. See variants.ts.
+
+  digest?: string;       // Collect triggers into the digest bucket of this
+                        // name and send them as one summary, instead of a
+                        // notification each. See digest.ts.
+
+  enabled?: boolean;     // false: keep the switch in HomeKit, with its room
+                        // and automations, but send nothing when it is
+                        // turned on. Default: true.
+}
+
+/**
+ * RecipientConfig - One extra destination for a webhook
+ *
+ * CONFIGURATION EXAMPLE:
+ * "recipients": [
+ *   { "name": "Alex", "id": "ABC12345", "token": "ALEXTOKEN" },
+ *   { "name": "Sam", "id": "GRP56789", "text": "Sam, the door is open" }
+ * ]
+ */
+export interface RecipientConfig {
+  name?: string;         // Label for the log. Default: the ID
+  id: string;            // Device, web device or Group ID
+  token?: string;        // Default: the webhook's own token
+  profile?: string;      // Take id and token from this profile instead
+  text?: string;         // Replaces the webhook's message for this recipient
+  title?: string;        // Replaces the title for this recipient
+  imageUrl?: string;     // Replaces the hero image for this recipient
+}
+
+/**
+ * ProfileConfig - A named, shared set of credentials
+ *
+ * Webhooks and recipients point at a profile by name instead of repeating
+ * the token, so rotating a token is a single edit.
+ *
+ * CONFIGURATION EXAMPLE:
+ * "profiles": [
+ *   { "name": "My iPhone", "id": "ABC12345", "token": "XYZ789TOKEN123" },
+ *   { "name": "Family", "id": "GRP56789", "token": "XYZ789TOKEN123" }
+ * ]
+ */
+export interface ProfileConfig {
+  name: string;          // What webhooks refer to it by. Must be unique
+  id: string;            // Device, web device or Group ID
+  token: string;         // Notify API token for that ID
 }
 
 /**
@@ -122,6 +331,38 @@ export interface WebhookConfig {
  */
 export interface NotifyPlatformConfig extends PlatformConfig {
   webhooks?: WebhookConfig[];  // Array of webhook configurations
+  triggerServer?: TriggerServerConfig;  // Optional inbound HTTP trigger endpoint
+  metrics?: MetricsConfig;  // Optional Prometheus metrics endpoint
+  schedules?: ScheduleRule[];  // Quiet hours applied to every webhook
+  profiles?: ProfileConfig[];  // Shared credentials webhooks can refer to
+  faultSensor?: boolean;  // One contact sensor accessory covering every webhook
+  muteSwitch?: boolean;  // A "Mute Notifications" switch that silences every webhook
+  digests?: DigestConfig[];  // Digest buckets' schedules and destinations
+  apiBaseUrl?: string;  // Send Notify API requests here instead, e.g. a
+                        // staging deployment or a local stub server
+  dryRun?: boolean;  // Log every request in full instead of sending it
+  proxyUrl?: string;  // Outbound proxy; see NetworkConfig in network.ts
+  noProxy?: string[];  // Hosts to reach without the proxy
+  caFile?: string;  // Extra trusted root certificates (PEM)
+}
+
+/**
+ * Display name of the platform-wide fault sensor accessory.
+ */
+const FAULT_ACCESSORY_NAME = 'Notify Delivery';
+
+/**
+ * Display name of the platform-wide mute switch accessory.
+ */
+const MUTE_ACCESSORY_NAME = 'Mute Notifications';
+
+/**
+ * The webhooks sharing one accessory, gathered by discoverDevices().
+ */
+interface GroupMembers {
+  claimed: Set<string>;        // Every identity in the group, valid or not
+  webhooks: WebhookConfig[];   // The ones that passed validation
+  disabled: WebhookConfig[];   // The ones turned off with enabled: false
 }
 
 /**
@@ -155,6 +396,66 @@ export class NotifyWebhookPlatform implements DynamicPlatformPlugin {
    */
   public readonly accessories: PlatformAccessory[] = [];
 
+  /**
+   * Live webhook handlers, keyed by webhook identity (see webhookIdentity())
+   *
+   * Rebuilt by discoverDevices(). Lets platform-level features such as the
+   * outbox reach a webhook's send path by the identity stored with their
+   * data; see handlerFor().
+   */
+  private readonly handlers = new Map<string, NotifyWebhookAccessory>();
+
+  /**
+   * Durable retry queue for failed deliveries
+   *
+   * Created once the storage path is known, in didFinishLaunching. See
+   * outbox.ts.
+   */
+  public outbox?: NotifyOutbox;
+
+  /**
+   * Record of every send attempt, for the settings UI's History tab. Created
+   * alongside the outbox. See history.ts.
+   */
+  public history?: DeliveryHistory;
+
+  /**
+   * Pending digest buckets, for webhooks with a digest set. Created
+   * alongside the outbox. See digest.ts.
+   */
+  public digests?: NotifyDigests;
+
+  /**
+   * Platform-wide delivery fault sensor, when faultSensor is set, and the
+   * webhooks currently failing. See reportDelivery().
+   */
+  private faultSensor?: Service;
+  private readonly failingWebhooks = new Set<string>();
+
+  /**
+   * The mute switch accessory, when muteSwitch is set. Its state lives in
+   * the accessory's context so that it survives restarts. See muted.
+   */
+  private muteAccessory?: PlatformAccessory;
+
+  /**
+   * Optional inbound HTTP endpoint for firing webhooks from outside HomeKit
+   */
+  private triggerServer?: NotifyTriggerServer;
+
+  /**
+   * Delivery counters and the endpoint serving them, when metrics are
+   * enabled. Fed by every webhook's send path. See metrics.ts.
+   */
+  public readonly metrics?: NotifyMetrics;
+
+  /**
+   * What every send needs beyond the webhook itself: the Notify API client,
+   * pointed at apiBaseUrl when the platform sets one, and the proxy and CA
+   * settings. See notifyApi.ts and network.ts.
+   */
+  public readonly providerContext: ProviderContext;
+
   /**
    * Platform Constructor
    *
@@ -174,6 +475,26 @@ export class NotifyWebhookPlatform implements DynamicPlatformPlugin {
     this.Service = this.api.hap.Service;
     this.Characteristic = this.api.hap.Characteristic;
 
+    const transport = this.networkTransport();
+    this.providerContext = {
+      notifyApi: new NotifyApiClient({ baseUrl: this.apiBaseUrl(), transport }),
+      transport,
+    };
+
+    if (this.config.dryRun) {
+      this.log.warn('Dry run is on: notifications are logged in full and not sent');
+    }
+
+    // Created up front so that nothing sent from here on goes uncounted
+    if (this.config.metrics?.enabled) {
+      this.metrics = new NotifyMetrics(this.log, this.config.metrics, {
+        webhooks: () => this.handlers.size,
+        failingWebhooks: () => this.failingWebhooks.size,
+        pendingRetries: () => this.outbox?.size ?? 0,
+        muted: () => this.muted,
+      });
+    }
+
     // Log initialization - helps with debugging startup issues
     this.log.debug('Finished initializing platform:', this.config.name || 'NotifyWebhooks');
 
@@ -195,9 +516,584 @@ export class NotifyWebhookPlatform implements DynamicPlatformPlugin {
 
       // Now it's safe to discover and register webhook accessories
       this.discoverDevices();
+
+      /**
+       * Start the outbox AFTER discovery, so entries left over from the last
+       * run find their webhook handlers when they are replayed.
+       */
+      this.history = new DeliveryHistory(this.log, this.api.user.storagePath());
+
+      this.outbox = new NotifyOutbox(this.log, this.api.user.storagePath(), {
+        policyFor: (identity) => {
+          const handler = this.handlerFor(identity);
+          return handler ? this.retryPolicy(handler.webhookConfig) : undefined;
+        },
+        deliver: (identity, payload, recipient) => {
+          const handler = this.handlerFor(identity);
+          if (!handler) {
+            return Promise.reject(new Error(`Webhook "${identity}" is no longer configured`));
+          }
+          const name = handler.webhookConfig.name;
+
+          // Muted means nothing goes out, retries included. Dropped rather
+          // than held, like a live trigger and a digest while muted.
+          if (this.muted) {
+            this.log.info(`Dropping queued notification for "${name}": notifications are muted`);
+            return Promise.resolve(false);
+          }
+
+          const target = handler.targetFor(recipient);
+          if (!target) {
+            return Promise.reject(new Error(`Recipient ${recipient} of webhook "${name}" is no longer configured`));
+          }
+          return handler.sendNotification(payload, target);
+        },
+        describeError,
+      });
+      this.outbox.load();
+
+      const digestConfigs = this.loadDigests();
+      this.digests = new NotifyDigests(this.log, this.api.user.storagePath(), {
+        configFor: (name) => digestConfigs.get(name) ?? { name },
+        deliver: (digest, payload, webhooks) => this.sendDigest(digest, payload, webhooks),
+        describeError,
+      });
+      this.digests.load();
+
+      if (this.config.triggerServer?.enabled) {
+        this.triggerServer = new NotifyTriggerServer(
+          this.log,
+          this.config.triggerServer,
+          (target) => this.handlerFor(target),
+        );
+        this.triggerServer.start();
+      }
+
+      this.metrics?.start();
+    });
+
+    /**
+     * Stop retry timers and the trigger and metrics endpoints on shutdown.
+     * Anything still queued is already on disk and is picked up again on
+     * the next start.
+     */
+    this.api.on('shutdown', () => {
+      this.outbox?.stop();
+      this.digests?.stop();
+      this.triggerServer?.stop();
+      this.metrics?.stop();
+    });
+  }
+
+  /**
+   * Find the live handler for a webhook identity stored by the outbox or a
+   * digest, or given in a trigger endpoint URL.
+   *
+   * Entries written before webhooks were filed by identity hold the name
+   * instead, and the endpoint accepts either, so a miss falls back to a
+   * webhook of that name. For a webhook without a key the two are the same
+   * anyway.
+   */
+  private handlerFor(identity: string): NotifyWebhookAccessory | undefined {
+    return this.handlers.get(identity)
+      ?? [...this.handlers.values()].find(handler => handler.webhookConfig.name === identity);
+  }
+
+  /**
+   * The UUID of an ungrouped webhook's accessory.
+   *
+   * Normally generated from the webhook's identity. A webhook that has just
+   * been given a key, by hand, by an import or after a rename, still has
+   * its accessory cached under the UUID of its name, since that is how it
+   * was identified before. That accessory is adopted rather than left for
+   * the stale-accessory sweep, which would delete it along with its room,
+   * scenes and automations. An accessory's UUID cannot change, so the
+   * adopted one keeps its old UUID and is marked with the key in its
+   * context; later starts find it by that mark, whatever the webhook is
+   * then called.
+   *
+   * @param processedUuids - UUIDs already claimed this run, never adopted
+   */
+  private accessoryUuid(webhook: WebhookConfig, identity: string, processedUuids: Set<string>): string {
+    const uuid = this.api.hap.uuid.generate(identity);
+    if (identity === webhook.name || this.accessories.some(accessory => accessory.UUID === uuid)) {
+      return uuid;
+    }
+
+    const marked = this.accessories.find(accessory => accessory.context.key === identity);
+    if (marked) {
+      return marked.UUID;
+    }
+
+    const legacyUuid = this.api.hap.uuid.generate(webhook.name);
+    const legacy = this.accessories.find(accessory => accessory.UUID === legacyUuid);
+    if (!legacy || processedUuids.has(legacyUuid) || legacy.context.group !== undefined) {
+      return uuid;
+    }
+
+    this.log.info(`Webhook "${webhook.name}" now has key "${identity}"; keeping the accessory it had under its name`);
+    legacy.context.key = identity;
+    this.api.updatePlatformAccessories([legacy]);
+    return legacyUuid;
+  }
+
+  /**
+   * Collect the schedule rules that apply to a webhook.
+   *
+   * Platform rules come first, then the webhook's own. Both sets apply; when
+   * windows overlap the strictest action wins (see evaluateSchedules).
+   */
+  schedulesFor(webhook: WebhookConfig): ScheduleRule[] {
+    const platformRules = webhook.ignorePlatformSchedules ? [] : this.config.schedules;
+    return [
+      ...(Array.isArray(platformRules) ? platformRules : []),
+      ...(Array.isArray(webhook.schedules) ? webhook.schedules : []),
+    ];
+  }
+
+  /**
+   * Index the platform's digest buckets by name, reporting broken entries.
+   *
+   * A broken entry is left out, so its bucket runs on the defaults rather
+   * than holding triggers on a schedule that never comes round.
+   */
+  private loadDigests(): Map<string, DigestConfig> {
+    const digests = new Map<string, DigestConfig>();
+    if (!Array.isArray(this.config.digests)) {
+      return digests;
+    }
+
+    this.config.digests.forEach((digest, index) => {
+      const problem = validateDigestConfig(digest);
+      if (problem) {
+        this.log.warn(`Digest ${index + 1} ${problem}. It will use the defaults.`);
+        return;
+      }
+      if (digests.has(digest.name)) {
+        this.log.warn(`Digest "${digest.name}" is listed more than once. The first entry is used.`);
+        return;
+      }
+      digests.set(digest.name, digest);
+    });
+
+    return digests;
+  }
+
+  /**
+   * Send a digest summary for NotifyDigests.
+   *
+   * It goes out through the first webhook in the bucket that is still
+   * configured, so that webhook's provider, dry run setting and history all
+   * apply, addressed to the digest's own profile or id when it has one. The
+   * mute switch applies as it does to any other send: a muted summary is
+   * dropped.
+   */
+  private sendDigest(digest: DigestConfig, payload: NotifyPayload, webhooks: string[]): Promise<unknown> {
+    if (this.muted) {
+      this.log.info(`Not sending digest "${digest.name}": notifications are muted`);
+      return Promise.resolve();
+    }
+
+    const handler = webhooks.map(identity => this.handlerFor(identity)).find(found => found !== undefined);
+    if (!handler) {
+      return Promise.reject(new Error(`None of the webhooks in digest "${digest.name}" are still configured`));
+    }
+
+    const profile = digest.profile
+      ? (this.config.profiles ?? []).find(candidate => candidate && candidate.name === digest.profile)
+      : undefined;
+    if (digest.profile && !profile) {
+      this.log.warn(`Digest "${digest.name}" uses the profile "${digest.profile}", which is not defined. ` +
+        `Sending to "${handler.webhookConfig.name}" instead.`);
+    }
+
+    const id = profile?.id ?? digest.id;
+    const target: NotifyTarget | undefined = id
+      ? { id, token: profile?.token ?? digest.token ?? handler.webhookConfig.token }
+      : undefined;
+
+    return handler.sendNotification(payload, target);
+  }
+
+  /**
+   * Report broken schedule rules once, at startup.
+   *
+   * A broken rule is skipped rather than fatal: ignoring one bad quiet-hours
+   * window is better than not sending alerts at all.
+   */
+  private validateSchedules(rules: ScheduleRule[] | undefined, owner: string) {
+    if (!Array.isArray(rules)) {
+      return;
+    }
+
+    rules.forEach((rule, index) => {
+      const problem = validateScheduleRule(rule);
+      if (problem) {
+        this.log.warn(`Schedule ${index + 1} of ${owner} ${problem}. It will be ignored.`);
+      }
+    });
+  }
+
+  /**
+   * Set up the shared accessory for a group of webhooks.
+   *
+   * Each webhook in the group is one Switch service on the accessory, with
+   * the webhook's identity (its key, else its name) as its subtype. On a cached accessory the services are
+   * brought in line with the config rather than rebuilt: switches for
+   * webhooks that left the group are removed, new ones are added, and the
+   * rest keep their HomeKit identity, so the accessory's room and the
+   * automations on its other switches survive any change to the group.
+   *
+   * @param group - Group name, also the accessory's display name
+   * @param members - Identities claimed in the group, and the webhooks among them
+   *   that passed validation. A claimed but invalid webhook keeps its switch,
+   *   inert, for the same reason an ungrouped one keeps its accessory.
+   */
+  private reconcileGroup(group: string, members: GroupMembers) {
+    const uuid = this.api.hap.uuid.generate(`group:${group}`);
+    const cached = this.accessories.find(accessory => accessory.UUID === uuid);
+
+    if (!cached && members.webhooks.length === 0 && members.disabled.length === 0) {
+      return;
+    }
+
+    const accessory = cached ?? new this.api.platformAccessory(group, uuid);
+    this.log.info(cached ? 'Restoring existing accessory group from cache:' : 'Adding new accessory group:', group);
+
+    for (const service of [...accessory.services]) {
+      if (service.UUID === this.Service.Switch.UUID && !(service.subtype && members.claimed.has(service.subtype))) {
+        this.log.info(`Removing switch "${service.displayName}" from accessory group ${group}`);
+        accessory.removeService(service);
+      }
+
+      // A departed webhook's fault sensor goes with its switch
+      if (service.UUID === this.Service.ContactSensor.UUID
+        && !members.claimed.has((service.subtype ?? '').slice(0, -FAULT_SENSOR_SUFFIX.length))) {
+        accessory.removeService(service);
+      }
+    }
+
+    const switches: Record<string, SwitchState> = accessory.context.switches ?? {};
+    for (const subtype of Object.keys(switches)) {
+      if (!members.claimed.has(subtype)) {
+        delete switches[subtype];
+      }
+    }
+    for (const webhook of [...members.webhooks, ...members.disabled]) {
+      const subtype = webhookIdentity(webhook);
+      switches[subtype] = { ...switches[subtype], webhook };
+    }
+
+    accessory.context.group = group;
+    accessory.context.switches = switches;
+
+    for (const webhook of members.webhooks) {
+      this.handlers.set(webhookIdentity(webhook), new NotifyWebhookAccessory(this, accessory, webhookIdentity(webhook)));
+    }
+    for (const webhook of members.disabled) {
+      const subtype = webhookIdentity(webhook);
+      const service = accessory.getServiceById(this.Service.Switch, subtype)
+        || accessory.addService(this.Service.Switch, webhook.name, subtype);
+      if (!service.testCharacteristic(this.Characteristic.ConfiguredName)) {
+        service.addOptionalCharacteristic(this.Characteristic.ConfiguredName);
+      }
+      service.setCharacteristic(this.Characteristic.ConfiguredName, webhook.name);
+      this.bindDisabledSwitch(service, webhook);
+    }
+
+    // Services changed, so the cache is written now rather than at shutdown
+    if (cached) {
+      this.api.updatePlatformAccessories([accessory]);
+    } else {
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    }
+  }
+
+  /**
+   * Create or restore the accessory of a disabled, ungrouped webhook.
+   *
+   * A newly added webhook that starts out disabled gets its switch as well,
+   * so enabling it later changes nothing in HomeKit. The context keeps the
+   * switch's counters for when it is enabled again.
+   */
+  private setupDisabledSwitch(webhook: WebhookConfig, uuid: string) {
+    let accessory = this.accessories.find(cached => cached.UUID === uuid);
+    if (accessory) {
+      this.log.info('Restoring existing accessory from cache:', accessory.displayName);
+    } else {
+      this.log.info('Adding new accessory:', webhook.name);
+      accessory = new this.api.platformAccessory(webhook.name, uuid);
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    }
+    accessory.context.webhook = webhook;
+
+    if (accessory.displayName !== webhook.name) {
+      this.log.info(`Renaming accessory "${accessory.displayName}" to "${webhook.name}"`);
+      accessory.updateDisplayName(webhook.name);
+      this.api.updatePlatformAccessories([accessory]);
+    }
+
+    accessory.getService(this.Service.AccessoryInformation)!
+      .setCharacteristic(this.Characteristic.Manufacturer, 'Notify')
+      .setCharacteristic(this.Characteristic.Model, 'Webhook Switch')
+      .setCharacteristic(this.Characteristic.SerialNumber, webhook.name);
+
+    const service = accessory.getService(this.Service.Switch) || accessory.addService(this.Service.Switch);
+    service.setCharacteristic(this.Characteristic.Name, webhook.name);
+    this.bindDisabledSwitch(service, webhook);
+  }
+
+  /**
+   * Make a disabled webhook's switch behave like a momentary one that sends
+   * nothing: turning it on is logged and the switch turns itself off again,
+   * rather than staying on with nothing behind it.
+   */
+  private bindDisabledSwitch(service: Service, webhook: WebhookConfig) {
+    const { On } = this.Characteristic;
+    service.getCharacteristic(On)
+      .onGet(() => false)
+      .onSet((value) => {
+        if (value !== true) {
+          return;
+        }
+        this.log.info(`Webhook "${webhook.name}" is disabled; nothing was sent`);
+        setTimeout(() => service.updateCharacteristic(On, false), MOMENTARY_AUTO_OFF_MS);
+      });
+    service.updateCharacteristic(On, false);
+  }
+
+  /**
+   * Create or restore the platform-wide "Notify Delivery" accessory.
+   *
+   * A single contact sensor that opens while any webhook is failing, for
+   * those who want one HomeKit fallback rather than one per webhook. Its
+   * UUID is claimed here; turning faultSensor off leaves it unclaimed, and
+   * the stale-accessory sweep removes it.
+   */
+  private setupFaultSensor(processedUuids: Set<string>) {
+    const uuid = this.api.hap.uuid.generate('notify-delivery-fault');
+    processedUuids.add(uuid);
+
+    let accessory = this.accessories.find(cached => cached.UUID === uuid);
+    if (!accessory) {
+      this.log.info('Adding new accessory:', FAULT_ACCESSORY_NAME);
+      accessory = new this.api.platformAccessory(FAULT_ACCESSORY_NAME, uuid);
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    }
+
+    accessory.getService(this.Service.AccessoryInformation)!
+      .setCharacteristic(this.Characteristic.Manufacturer, 'Notify')
+      .setCharacteristic(this.Characteristic.Model, 'Delivery Fault Sensor')
+      .setCharacteristic(this.Characteristic.SerialNumber, 'notify-delivery-fault');
+
+    this.faultSensor = accessory.getService(this.Service.ContactSensor)
+      || accessory.addService(this.Service.ContactSensor, FAULT_ACCESSORY_NAME);
+    this.updateFaultSensor();
+  }
+
+  /**
+   * Create or restore the platform-wide "Mute Notifications" switch.
+   *
+   * While it is on, every webhook skips sending (see muted). The state is
+   * kept in the accessory context and written to the cache on every change,
+   * so a restart in the middle of a maintenance window does not start the
+   * notifications again. Turning muteSwitch off leaves the UUID unclaimed,
+   * and the stale-accessory sweep removes the accessory and its state, so a
+   * forgotten mute cannot outlive the switch that shows it.
+   */
+  private setupMuteSwitch(processedUuids: Set<string>) {
+    const uuid = this.api.hap.uuid.generate('notify-mute-switch');
+    processedUuids.add(uuid);
+
+    let accessory = this.accessories.find(cached => cached.UUID === uuid);
+    if (!accessory) {
+      this.log.info('Adding new accessory:', MUTE_ACCESSORY_NAME);
+      accessory = new this.api.platformAccessory(MUTE_ACCESSORY_NAME, uuid);
+      accessory.context.muted = false;
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    }
+    this.muteAccessory = accessory;
+
+    accessory.getService(this.Service.AccessoryInformation)!
+      .setCharacteristic(this.Characteristic.Manufacturer, 'Notify')
+      .setCharacteristic(this.Characteristic.Model, 'Mute Switch')
+      .setCharacteristic(this.Characteristic.SerialNumber, 'notify-mute-switch');
+
+    const service = accessory.getService(this.Service.Switch)
+      || accessory.addService(this.Service.Switch, MUTE_ACCESSORY_NAME);
+
+    service.getCharacteristic(this.Characteristic.On)
+      .onGet(() => this.muted)
+      .onSet(value => {
+        accessory!.context.muted = value === true;
+        this.api.updatePlatformAccessories([accessory!]);
+        this.log.info(this.muted ? 'Notifications muted' : 'Notifications unmuted');
+      });
+
+    if (this.muted) {
+      this.log.warn(`Notifications are muted: nothing will be sent until "${MUTE_ACCESSORY_NAME}" is turned off`);
+    }
+  }
+
+  /**
+   * Whether the mute switch is on. Checked by every webhook before it sends.
+   */
+  get muted(): boolean {
+    return this.muteAccessory?.context.muted === true;
+  }
+
+  /**
+   * Record whether a webhook's notifications are getting through, for the
+   * platform-wide fault sensor. Called by each webhook, with its identity,
+   * when its own fault state changes.
+   */
+  reportDelivery(webhook: string, failing: boolean) {
+    if (failing) {
+      this.failingWebhooks.add(webhook);
+    } else {
+      this.failingWebhooks.delete(webhook);
+    }
+    this.updateFaultSensor();
+  }
+
+  private updateFaultSensor() {
+    const failing = this.failingWebhooks.size > 0;
+    const { StatusFault, ContactSensorState } = this.Characteristic;
+
+    this.faultSensor?.updateCharacteristic(
+      ContactSensorState,
+      failing ? ContactSensorState.CONTACT_NOT_DETECTED : ContactSensorState.CONTACT_DETECTED,
+    );
+    this.faultSensor?.updateCharacteristic(StatusFault, failing ? StatusFault.GENERAL_FAULT : StatusFault.NO_FAULT);
+  }
+
+  /**
+   * Log why discoverDevices() skips a webhook, or leaves its switch inert.
+   */
+  private logProblem(webhook: WebhookConfig, problem: SetupProblem) {
+    this.log.error(`${webhook.name ? `Webhook "${webhook.name}"` : 'Webhook configuration'} ${problem.message}`);
+    problem.hints.forEach(hint => this.log.error(hint));
+  }
+
+  private logNotice(notice: StartupNotice) {
+    if (notice.severity === 'error') {
+      this.log.error(notice.message);
+    } else {
+      this.log.warn(notice.message);
+    }
+  }
+
+  /**
+   * Report recipient entries that cannot be sent to.
+   *
+   * As with schedules, a bad entry is skipped rather than taking the whole
+   * webhook down with it; the accessory leaves out entries without an ID.
+   */
+  private validateRecipients(webhook: WebhookConfig) {
+    if (webhook.recipients === undefined) {
+      return;
+    }
+
+    if (!Array.isArray(webhook.recipients)) {
+      this.log.warn(`Webhook "${webhook.name}" has "recipients" that is not a list. It will be ignored.`);
+      return;
+    }
+
+    const seen = new Set([webhook.id]);
+    webhook.recipients.forEach((recipient, index) => {
+      if (!recipient || !recipient.id) {
+        this.log.warn(`Recipient ${index + 1} of webhook "${webhook.name}" is missing an id. It will be ignored.`);
+        return;
+      }
+
+      if (seen.has(recipient.id)) {
+        this.log.warn(`Webhook "${webhook.name}" lists ${recipient.id} more than once. It will receive duplicates.`);
+      }
+      seen.add(recipient.id);
     });
   }
 
+  /**
+   * Log the format problems validation.ts finds in a webhook.
+   *
+   * Unlike the required-field checks in discoverDevices(), these never skip
+   * the webhook: the aim is that a mistyped ID is in the log at startup,
+   * not first discovered when an alert fails to arrive.
+   */
+  private reportDiagnostics(webhook: WebhookConfig) {
+    for (const diagnostic of validateWebhook(webhook)) {
+      if (diagnostic.severity === 'error') {
+        this.log.error(formatDiagnostic(webhook.name, diagnostic));
+      } else {
+        this.log.warn(formatDiagnostic(webhook.name, diagnostic));
+      }
+    }
+  }
+
+  /**
+   * Build the proxy and CA settings from the platform config.
+   *
+   * A setting that cannot be used is logged and left out rather than
+   * stopping the plugin; requests then fail with an error that names the
+   * proxy or TLS problem, which is the more useful place to notice it.
+   */
+  private networkTransport(): NetworkTransport {
+    const { proxyUrl, noProxy, caFile } = this.config;
+
+    try {
+      const transport = new NetworkTransport({ proxyUrl, noProxy, caFile });
+      if (proxyUrl) {
+        // Host only: the URL may carry a password
+        this.log.info(`Sending requests through proxy ${new URL(proxyUrl).host}`);
+      }
+      if (caFile) {
+        this.log.info(`Trusting additional CA certificates from ${caFile}`);
+      }
+      return transport;
+    } catch (error) {
+      this.log.error(`Ignoring the network settings: ${(error as Error).message}`);
+      return new NetworkTransport();
+    }
+  }
+
+  /**
+   * The Notify API base URL to use: the platform's apiBaseUrl when it is
+   * valid, otherwise undefined for the built-in default.
+   *
+   * An override is announced at startup, since a plugin quietly sending to
+   * a stub server is exactly the kind of thing that gets forgotten.
+   */
+  private apiBaseUrl(): string | undefined {
+    if (!this.config.apiBaseUrl) {
+      return undefined;
+    }
+
+    try {
+      const url = normalizeApiBaseUrl(this.config.apiBaseUrl);
+      this.log.warn(`Sending Notify API requests to ${url} instead of ${NOTIFY_API_BASE_URL}`);
+      return url;
+    } catch (error) {
+      this.log.error(`Ignoring apiBaseUrl: ${(error as Error).message}. Using ${NOTIFY_API_BASE_URL}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve a webhook's retry limits, applying defaults.
+   *
+   * Values that are not positive numbers fall back to the default rather
+   * than disabling retries by accident.
+   */
+  private retryPolicy(webhook: WebhookConfig): RetryPolicy {
+    const attempts = Number(webhook.retryMaxAttempts);
+    const age = Number(webhook.retryMaxAgeMinutes);
+
+    return {
+      maxAttempts: attempts >= 1 ? Math.floor(attempts) : DEFAULT_RETRY_MAX_ATTEMPTS,
+      maxAgeMinutes: age > 0 ? age : DEFAULT_RETRY_MAX_AGE_MINUTES,
+    };
+  }
+
   /**
    * Configure Cached Accessory
    *
@@ -234,7 +1130,7 @@ export class NotifyWebhookPlatform implements DynamicPlatformPlugin {
    * Called after 'didFinishLaunching' to ensure Homebridge is ready.
    *
    * The process for each webhook:
-   * - Generate a unique UUID based on the webhook name
+   * - Generate a unique UUID based on the webhook's key (or its name)
    * - Check if we already have a cached accessory with that UUID
    * - If yes: Update it with the new config
    * - If no: Create a new accessory and register it with Homebridge
@@ -250,17 +1146,25 @@ export class NotifyWebhookPlatform implements DynamicPlatformPlugin {
      * Track the UUIDs processed during this run.
      *
      * Used for two things:
-     * 1. Detecting duplicate webhook names. The UUID is derived from the
-     *    name, so two webhooks with the same name would collide on the
-     *    same accessory and silently overwrite each other.
-     * 2. Finding cached accessories whose webhook was removed or renamed
-     *    in the config, so they can be unregistered instead of lingering
+     * 1. Detecting duplicate webhook identities. The UUID is derived from
+     *    the key (or the name), so two webhooks sharing one would collide
+     *    on the same accessory and silently overwrite each other.
+     * 2. Finding cached accessories whose webhook was removed (or renamed
+     *    while it had no key) in the config, so they can be unregistered instead of lingering
      *    in HomeKit as dead switches.
      */
     const processedUuids = new Set<string>();
+    const groups = new Map<string, GroupMembers>();
+    this.handlers.clear();
+
+    // The same checks the settings UI server shows before saving
+    const checks = new StartupChecks(this.config.profiles);
+    checks.profileNotices.forEach(notice => this.logNotice(notice));
+
+    this.validateSchedules(this.config.schedules, 'the platform');
 
     // Process each webhook configuration
-    for (const webhook of this.config.webhooks) {
+    for (let webhook of this.config.webhooks) {
       /**
        * NULL CHECK
        *
@@ -293,23 +1197,30 @@ export class NotifyWebhookPlatform implements DynamicPlatformPlugin {
        * - Allow partial functionality if some webhooks are misconfigured
        */
 
-      // VALIDATION 1: Name is required
+      // VALIDATION 1: Name, duplicates and enabled, then profiles and the
+      // provider's required fields. See StartupChecks in validation.ts.
       // The name is critical because:
       // - It's the display name in HomeKit
-      // - It's used to generate the unique UUID
+      // - Without a key, it's used to generate the unique UUID
       // - Users interact with it via Siri ("Turn on [name]")
       // - It identifies the switch in automations
-      if (!webhook.name) {
-        this.log.error('Webhook configuration is missing name');
-        this.log.error('Please add a "name" field to your webhook configuration');
+      const verdict = checks.check(webhook);
+      verdict.notices.forEach(notice => this.logNotice(notice));
+      if (verdict.identity === undefined) {
+        this.logProblem(webhook, verdict.problem!);
         continue;  // Skip this webhook and try the next one
       }
+      const identity = verdict.identity;
 
       /**
        * UUID Generation and Duplicate Name Check
        *
-       * Each accessory needs a unique identifier, generated from the webhook
-       * name so the same webhook always maps to the same accessory.
+       * Each accessory needs a unique identifier, generated from the webhook's
+       * key so the same webhook always maps to the same accessory, whatever
+       * it is called. A webhook without a key falls back to its name, which
+       * is how every accessory was identified before keys existed. A webhook
+       * that gains a key adopts the accessory cached under its name (see
+       * accessoryUuid()), so adopting keys loses no accessory.
        *
        * This deliberately happens BEFORE the remaining validations. The UUID
        * is what marks an accessory as still wanted, and the stale-accessory
@@ -319,48 +1230,61 @@ export class NotifyWebhookPlatform implements DynamicPlatformPlugin {
        * along with its room assignment, scenes and automations. An inert
        * switch is recoverable; a deleted one is not.
        *
-       * Two webhooks with the same name would map to the same accessory, the
-       * second silently overwriting the first, so duplicates are skipped.
+       * Two webhooks with the same identity would map to the same accessory,
+       * the second silently overwriting the first, so duplicates are
+       * skipped. Names must stay unique as well: they are how the trigger
+       * endpoint and the log refer to a webhook.
+       *
+       * A grouped webhook claims its group's accessory instead, and its own
+       * switch service within it (see reconcileGroup()).
        */
-      const uuid = this.api.hap.uuid.generate(webhook.name);
+      const group = typeof webhook.group === 'string' && webhook.group.trim() ? webhook.group.trim() : undefined;
+      const uuid = group
+        ? this.api.hap.uuid.generate(`group:${group}`)
+        : this.accessoryUuid(webhook, identity, processedUuids);
+      processedUuids.add(uuid);
 
-      if (processedUuids.has(uuid)) {
-        this.log.error(`Duplicate webhook name "${webhook.name}" - skipping this entry`);
-        this.log.error('Each webhook needs a unique name to appear as its own switch');
-        continue;
+      let members: GroupMembers | undefined;
+      if (group) {
+        members = groups.get(group) ?? { claimed: new Set(), webhooks: [], disabled: [] };
+        members.claimed.add(identity);
+        groups.set(group, members);
       }
-      processedUuids.add(uuid);
 
-      // VALIDATION 2: Token is required for API authentication
-      // The token:
-      // - Authenticates requests to the Notify API
-      // - Is unique to each user/app
-      // - Should be kept secret
-      // - Can be found in the Notify app settings
-      if (!webhook.token) {
-        this.log.error(`Webhook "${webhook.name}" is missing token`);
-        this.log.error('Get your token from the Notify app settings');
+      /**
+       * A disabled webhook stops here, with its UUID claimed and no
+       * NotifyWebhookAccessory: the switch stays in HomeKit, with its room,
+       * scenes and automations, and turns itself off again without sending
+       * (see setupDisabledSwitch()). The rest of its settings are not
+       * checked, so a webhook can be parked half-configured.
+       */
+      if (verdict.disabled) {
+        this.log.info(`Webhook "${webhook.name}" is disabled; its switch stays in HomeKit but sends nothing`);
+        if (members) {
+          members.disabled.push(webhook);
+        } else {
+          this.setupDisabledSwitch(webhook, uuid);
+        }
         continue;
       }
 
-      // VALIDATION 3: Text is the actual notification message
-      // This is what the user will see in the notification
-      // Without it, there's nothing to send
-      if (!webhook.text) {
-        this.log.error(`Webhook "${webhook.name}" is missing text`);
-        this.log.error('Add a "text" field with your notification message');
+      // VALIDATION 2: The fields the webhook's delivery provider needs
+      // before it can send, with id and token filled in from a named
+      // profile. A reference to a profile that does not exist leaves the
+      // switch in place but inert, exactly like a missing token would.
+      if (!verdict.webhook) {
+        this.logProblem(webhook, verdict.problem!);
         continue;
       }
+      webhook = verdict.webhook;
 
-      // VALIDATION 4: ID is required (unified field for device or group)
-      // The ID determines where the notification goes:
-      // - Device IDs: Send to a specific device (e.g., "ABC12345")
-      // - Group IDs: Send to a group (must start with "GRP", e.g., "GRPFAMILY")
-      // The API auto-detects the type based on the "GRP" prefix
-      if (!webhook.id) {
-        this.log.error(`Webhook "${webhook.name}" is missing id`);
-        this.log.error('Add an "id" field with your Device ID or Group ID (groups start with GRP)');
-        this.log.error('Example device: "ABC12345", Example group: "GRPFAMILY"');
+      this.validateSchedules(webhook.schedules, `webhook "${webhook.name}"`);
+      this.validateRecipients(webhook);
+      this.reportDiagnostics(webhook);
+
+      // Grouped webhooks are set up together once every member is known
+      if (members) {
+        members.webhooks.push(webhook);
         continue;
       }
 
@@ -390,7 +1314,14 @@ export class NotifyWebhookPlatform implements DynamicPlatformPlugin {
         existingAccessory.context.webhook = webhook;
 
         // Create the handler that manages this accessory's behavior
-        new NotifyWebhookAccessory(this, existingAccessory);
+        this.handlers.set(webhookIdentity(webhook), new NotifyWebhookAccessory(this, existingAccessory));
+
+        // A renamed webhook keeps its accessory; only the name shown changes
+        if (existingAccessory.displayName !== webhook.name) {
+          this.log.info(`Renaming accessory "${existingAccessory.displayName}" to "${webhook.name}"`);
+          existingAccessory.updateDisplayName(webhook.name);
+          this.api.updatePlatformAccessories([existingAccessory]);
+        }
       } else {
         /**
          * New Accessory Path
@@ -410,7 +1341,7 @@ export class NotifyWebhookPlatform implements DynamicPlatformPlugin {
         accessory.context.webhook = webhook;
 
         // Create the handler that manages this accessory's behavior
-        new NotifyWebhookAccessory(this, accessory);
+        this.handlers.set(webhookIdentity(webhook), new NotifyWebhookAccessory(this, accessory));
 
         // Register the accessory with Homebridge
         // This makes it appear in HomeKit and saves it to cache
@@ -418,6 +1349,18 @@ export class NotifyWebhookPlatform implements DynamicPlatformPlugin {
       }
     }
 
+    for (const [group, members] of groups) {
+      this.reconcileGroup(group, members);
+    }
+
+    if (this.config.faultSensor) {
+      this.setupFaultSensor(processedUuids);
+    }
+
+    if (this.config.muteSwitch) {
+      this.setupMuteSwitch(processedUuids);
+    }
+
     /**
      * Stale Accessory Cleanup
      *
@@ -0,0 +1,103 @@
+import { NotifyApiError } from '../errors';
+import type { DeliveryProvider } from './provider';
+import { describeResponseBody, performRequest } from './provider';
+
+/**
+ * Generic HTTP provider
+ *
+ * For services with no provider of their own: sends one request to
+ * providerUrl, built from a body template. Any 2xx response is success.
+ *
+ * CONFIGURATION:
+ * - providerUrl: Where to send. Required.
+ * - httpMethod:  POST (default) or PUT
+ * - httpHeaders: Extra headers, as [{ name, value }]. Content-Type defaults
+ *                to application/json.
+ * - httpBody:    Body template. Default: the payload as JSON, plus the
+ *                webhook's name.
+ * - id, token:   Optional. Available to the template for services that
+ *                want them, but not sent anywhere on their own.
+ *
+ * TEMPLATE PLACEHOLDERS:
+ * {{text}} {{title}} {{imageUrl}} {{iconUrl}} {{groupType}}
+ * {{timeSensitive}} {{name}} {{id}} {{token}}
+ *
+ * Values are JSON-string-escaped without the surrounding quotes, so a
+ * template is written as JSON with placeholders inside quoted strings:
+ *   { "content": "{{title}}: {{text}}" }
+ * A missing value becomes the empty string.
+ */
+export const httpProvider: DeliveryProvider = {
+  name: 'http',
+  labels: { id: 'ID', token: 'token' },
+  requires: { id: false, token: false, url: true },
+
+  request(payload, { id, token }, webhook) {
+    const values: Record<string, unknown> = {
+      text: payload.text,
+      title: payload.title,
+      imageUrl: payload.imageUrl,
+      iconUrl: payload.iconUrl,
+      groupType: payload.groupType,
+      timeSensitive: payload.timeSensitive ?? false,
+      name: webhook.name,
+      id,
+      token,
+    };
+
+    const body = webhook.httpBody
+      ? renderBody(webhook.httpBody, values)
+      : JSON.stringify({ ...payload, name: webhook.name });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    for (const header of webhook.httpHeaders ?? []) {
+      if (header?.name) {
+        headers[header.name] = header.value ?? '';
+      }
+    }
+
+    return {
+      method: webhook.httpMethod === 'PUT' ? 'PUT' : 'POST',
+      url: webhook.providerUrl!,
+      headers,
+      data: body,
+    };
+  },
+
+  async send(payload, target, webhook, context) {
+    const response = await performRequest(httpProvider.request(payload, target, webhook, context), context, {
+      // Send the rendered template as-is rather than letting axios re-encode it
+      transformRequest: [(data) => data],
+    });
+
+    /**
+     * Without knowing the service, only the status can be classified: 408
+     * and 429 are the standard "try again later" answers, and anything else
+     * below 500 means the request itself is wrong.
+     */
+    if (response.status < 200 || response.status >= 300) {
+      throw new NotifyApiError(
+        `${webhook.providerUrl} returned status ${response.status}` +
+          (response.data ? ` - ${describeResponseBody(response.data)}` : ''),
+        response.status,
+        response.status === 408 || response.status === 429,
+      );
+    }
+
+    return { status: response.status, data: response.data };
+  },
+};
+
+/**
+ * Substitute {{placeholders}} in a body template. Unknown placeholders are
+ * left in place so a typo shows up in the receiving service.
+ */
+function renderBody(template: string, values: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => {
+    if (!(key in values)) {
+      return match;
+    }
+    const value = values[key];
+    return value === undefined ? '' : JSON.stringify(String(value)).slice(1, -1);
+  });
+}
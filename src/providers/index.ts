@@ -0,0 +1,32 @@
+import type { DeliveryProvider, ProviderName } from './provider';
+import { notifyProvider } from './notify';
+import { ntfyProvider } from './ntfy';
+import { pushoverProvider } from './pushover';
+import { httpProvider } from './http';
+
+export type { DeliveryProvider, ProviderContext, ProviderName, ProviderResult, ProviderTarget } from './provider';
+
+/**
+ * Every available provider, by config value.
+ */
+const PROVIDERS: Record<ProviderName, DeliveryProvider> = {
+  notify: notifyProvider,
+  ntfy: ntfyProvider,
+  pushover: pushoverProvider,
+  http: httpProvider,
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS) as ProviderName[];
+
+/**
+ * Look up a webhook's provider.
+ *
+ * @param name - WebhookConfig.provider. Unset means the Notify API.
+ * @returns The provider, or undefined for an unknown name. Startup
+ *   validation rejects those, so at send time this never misses.
+ */
+export function getProvider(name?: string): DeliveryProvider | undefined {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, name ?? 'notify')
+    ? PROVIDERS[(name ?? 'notify') as ProviderName]
+    : undefined;
+}
@@ -0,0 +1,31 @@
+import type { DeliveryProvider } from './provider';
+
+/**
+ * Notify! API provider - the default
+ *
+ * A thin adapter over NotifyApiClient (notifyApi.ts), which holds the
+ * request, the response handling and the error messages, shared with the
+ * settings UI server. The client comes from the context so that it honours
+ * the platform's apiBaseUrl. The payload is already in the API's own
+ * shape, so there is nothing to map.
+ */
+export const notifyProvider: DeliveryProvider = {
+  name: 'notify',
+  labels: { id: 'Device or Group ID', token: 'token' },
+  requires: { id: true, token: true, url: false },
+
+  request(payload, { id, token }, _webhook, { notifyApi }) {
+    return notifyApi.sendRequest(id, token, payload);
+  },
+
+  async send(payload, { id, token }, _webhook, { notifyApi }) {
+    const result = await notifyApi.send(id, token, payload);
+    return {
+      status: result.status,
+      deviceCount: result.deviceCount,
+      successCount: result.successCount,
+      failureCount: result.failureCount,
+      data: result.data,
+    };
+  },
+};
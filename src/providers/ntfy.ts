@@ -0,0 +1,85 @@
+import { NotifyApiError } from '../errors';
+import type { DeliveryProvider } from './provider';
+import { describeResponseBody, performRequest } from './provider';
+
+/**
+ * Public ntfy server, used when the webhook sets no providerUrl.
+ */
+export const NTFY_DEFAULT_SERVER = 'https://ntfy.sh';
+
+/**
+ * ntfy provider
+ *
+ * Publishes with ntfy's JSON API: a POST to the server root naming the
+ * topic in the body. Works with ntfy.sh and self-hosted servers alike.
+ *
+ * https://docs.ntfy.sh/publish/#publish-as-json
+ *
+ * CONFIGURATION:
+ * - id:          The topic
+ * - token:       Optional access token, for protected topics
+ * - providerUrl: The server. Default: https://ntfy.sh
+ *
+ * MAPPING:
+ * - text, title   message, title
+ * - imageUrl      attach (shown inline by the ntfy apps)
+ * - iconUrl       icon
+ * - timeSensitive priority 5 ("max"), which the ntfy app can let through
+ *                 Do Not Disturb. Otherwise the server's default priority.
+ * - groupType     Not supported by ntfy; ignored.
+ */
+export const ntfyProvider: DeliveryProvider = {
+  name: 'ntfy',
+  labels: { id: 'topic', token: 'access token' },
+  requires: { id: true, token: false, url: false },
+
+  request(payload, { id, token }, webhook) {
+    const body: Record<string, unknown> = {
+      topic: id,
+      message: payload.text,
+    };
+    if (payload.title) {
+      body.title = payload.title;
+    }
+    if (payload.imageUrl) {
+      body.attach = payload.imageUrl;
+    }
+    if (payload.iconUrl) {
+      body.icon = payload.iconUrl;
+    }
+    if (payload.timeSensitive) {
+      body.priority = 5;
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    return {
+      method: 'POST',
+      url: (webhook.providerUrl || NTFY_DEFAULT_SERVER).replace(/\/+$/, ''),
+      headers,
+      data: body,
+    };
+  },
+
+  async send(payload, target, webhook, context) {
+    const response = await performRequest(ntfyProvider.request(payload, target, webhook, context), context);
+
+    if (response.status < 200 || response.status >= 300) {
+      /**
+       * ntfy answers errors with { code, http, error, link }. 429 means a
+       * visitor or topic rate limit, which passes; 401 and 403 mean the
+       * topic needs (a different) access token, which does not.
+       */
+      throw new NotifyApiError(
+        `ntfy returned status ${response.status}` +
+          (response.data ? ` - ${describeResponseBody(response.data)}` : ''),
+        response.status,
+      );
+    }
+
+    return { status: response.status, data: response.data };
+  },
+};
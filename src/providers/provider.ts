@@ -0,0 +1,166 @@
+import axios, { AxiosRequestConfig } from 'axios';
+
+import { REQUEST_TIMEOUT_MS } from '../settings';
+import type { WebhookConfig } from '../platform';
+import type { NotifyPayload } from '../webhookAccessory';
+import type { NotifyApiClient } from '../notifyApi';
+import type { NetworkTransport } from '../network';
+
+/**
+ * ProviderTarget - Where one send goes, in the provider's own terms
+ *
+ * The webhook's id and token, or a recipient's or escalation target's.
+ * What they mean depends on the provider: a Notify device or group ID, an
+ * ntfy topic, a Pushover user key. See each provider's labels.
+ */
+export interface ProviderTarget {
+  id: string;
+  token: string;
+}
+
+/**
+ * ProviderResult - A successful send, as far as the provider can tell
+ *
+ * Only the Notify API reports per-device results for group sends. Other
+ * providers leave the counts unset.
+ */
+export interface ProviderResult {
+  status?: number;         // HTTP status of the response, e.g. 200 or 204
+  deviceCount?: number;
+  successCount?: number;
+  failureCount?: number;   // Above zero: delivered to only part of a group
+  data?: unknown;          // Response body, for debug logging only
+}
+
+/**
+ * ProviderRequest - The HTTP request a send makes, in axios's terms
+ *
+ * Built by request() and sent by send(), so a dry run can log exactly what
+ * would have gone out.
+ */
+export interface ProviderRequest {
+  method: 'GET' | 'POST' | 'PUT';
+  url: string;
+  params?: Record<string, string>;     // Query string
+  headers?: Record<string, string>;
+  data?: unknown;                      // Body: an object to send as JSON, or a string as-is
+}
+
+/**
+ * ProviderContext - Platform-wide settings a provider may need
+ */
+export interface ProviderContext {
+  notifyApi: NotifyApiClient;          // Honours the platform's apiBaseUrl
+  transport: NetworkTransport;         // Proxy and CA settings
+}
+
+/**
+ * DeliveryProvider - One way of delivering a notification
+ *
+ * A provider maps the rendered NotifyPayload onto its service's request,
+ * sends it, and classifies the outcome. It never logs: the caller does
+ * that, once, with the result or the error.
+ *
+ * ERRORS:
+ * - A response that refuses the notification is thrown as NotifyApiError,
+ *   with retryable set when the provider knows the refusal is temporary.
+ * - Network failures, timeouts and 5xx are left as the axios error, which
+ *   isRetryableError() already treats as temporary.
+ * - Messages must never contain the token. Providers that send it in a
+ *   header or body are safe by construction, since describeError() reads
+ *   only the status and response body.
+ */
+export interface DeliveryProvider {
+  /**
+   * Config value selecting this provider, e.g. "ntfy".
+   */
+  readonly name: ProviderName;
+
+  /**
+   * What the target fields mean for this provider, for validation messages
+   * and the settings UI. A field with no label is not used at all.
+   */
+  readonly labels: {
+    id: string;
+    token?: string;
+  };
+
+  /**
+   * Which settings the provider cannot work without.
+   */
+  readonly requires: {
+    id: boolean;
+    token: boolean;
+    url: boolean;     // WebhookConfig.providerUrl
+  };
+
+  /**
+   * Build the request send() would make, without making it.
+   *
+   * The result contains the token wherever the service expects it; mask
+   * it before logging.
+   */
+  request(payload: NotifyPayload, target: ProviderTarget, webhook: WebhookConfig, context: ProviderContext): ProviderRequest;
+
+  /**
+   * Deliver one payload.
+   *
+   * @param payload - Rendered notification
+   * @param target - ID and token to send to
+   * @param webhook - The webhook's configuration, for provider settings
+   *   such as providerUrl
+   * @param context - Platform-wide settings
+   * @throws NotifyApiError or an axios error, as described above
+   */
+  send(payload: NotifyPayload, target: ProviderTarget, webhook: WebhookConfig, context: ProviderContext): Promise<ProviderResult>;
+}
+
+export type ProviderName = 'notify' | 'ntfy' | 'pushover' | 'http';
+
+/**
+ * Pull a readable reason out of a refusal's response body, which providers
+ * shape in different ways. Falls back to the raw text, shortened.
+ */
+export function describeResponseBody(data: unknown): string {
+  if (!data) {
+    return '';
+  }
+
+  if (typeof data === 'string') {
+    return data.trim().slice(0, 200);
+  }
+
+  if (typeof data === 'object') {
+    const body = data as Record<string, unknown>;
+    const reason = body.message ?? body.error ?? body.errors;
+    if (Array.isArray(reason)) {
+      return reason.join(', ');
+    }
+    if (typeof reason === 'string') {
+      return reason;
+    }
+    return JSON.stringify(data).slice(0, 200);
+  }
+
+  return String(data);
+}
+
+/**
+ * Make a provider's request with the settings every provider shares: the
+ * network timeout, the platform's proxy and CA settings, and no redirects,
+ * since each provider's credentials would follow a redirect to whatever
+ * host it names. 3xx and 4xx come back as responses for the provider to
+ * classify; axios throws only on 5xx and network errors.
+ *
+ * @param config - Extra axios options for this provider
+ */
+export function performRequest(request: ProviderRequest, context: ProviderContext, config: AxiosRequestConfig = {}) {
+  return axios.request({
+    ...request,
+    ...context.transport.requestConfig(request.url),
+    timeout: REQUEST_TIMEOUT_MS,
+    maxRedirects: 0,
+    validateStatus: (status) => status < 500,
+    ...config,
+  });
+}
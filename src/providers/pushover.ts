@@ -0,0 +1,81 @@
+import { NotifyApiError } from '../errors';
+import type { DeliveryProvider } from './provider';
+import { describeResponseBody, performRequest } from './provider';
+
+/**
+ * Pushover's message endpoint, used when the webhook sets no providerUrl.
+ */
+export const PUSHOVER_DEFAULT_URL = 'https://api.pushover.net/1/messages.json';
+
+/**
+ * Pushover-style provider
+ *
+ * Sends the Pushover message API's request: an application token and a
+ * user (or group) key in the body. Services that copy that API can be used
+ * by pointing providerUrl at them.
+ *
+ * https://pushover.net/api
+ *
+ * CONFIGURATION:
+ * - id:          The user or group key
+ * - token:       The application's API token
+ * - providerUrl: Default: the Pushover API
+ *
+ * MAPPING:
+ * - text, title   message, title
+ * - imageUrl      url, with url_title "Image". Pushover attachments must
+ *                 be uploaded, not linked, so the image becomes a link.
+ * - timeSensitive priority 1 (high), which bypasses quiet hours
+ * - iconUrl, groupType  Not supported; ignored.
+ */
+export const pushoverProvider: DeliveryProvider = {
+  name: 'pushover',
+  labels: { id: 'user key', token: 'application token' },
+  requires: { id: true, token: true, url: false },
+
+  request(payload, { id, token }, webhook) {
+    const body: Record<string, unknown> = {
+      token,
+      user: id,
+      message: payload.text,
+    };
+    if (payload.title) {
+      body.title = payload.title;
+    }
+    if (payload.imageUrl) {
+      body.url = payload.imageUrl;
+      body.url_title = 'Image';
+    }
+    if (payload.timeSensitive) {
+      body.priority = 1;
+    }
+
+    return {
+      method: 'POST',
+      url: webhook.providerUrl || PUSHOVER_DEFAULT_URL,
+      headers: { 'Content-Type': 'application/json' },
+      data: body,
+    };
+  },
+
+  async send(payload, target, webhook, context) {
+    const response = await performRequest(pushoverProvider.request(payload, target, webhook, context), context);
+
+    /**
+     * Pushover answers { status: 1 } on success and a 4xx with
+     * { status: 0, errors: [...] } when the request is invalid, which a
+     * retry cannot fix. 429 means the application's monthly limit is spent;
+     * that outlasts any retry window, so it is not retried either.
+     */
+    if (response.status !== 200 || response.data?.status !== 1) {
+      throw new NotifyApiError(
+        `Pushover returned status ${response.status}` +
+          (response.data ? ` - ${describeResponseBody(response.data)}` : ''),
+        response.status,
+        false,
+      );
+    }
+
+    return { status: response.status, data: response.data };
+  },
+};
@@ -0,0 +1,239 @@
+/**
+ * Schedule rules: quiet hours and day-of-week delivery windows
+ *
+ * A rule describes a recurring window of time and what happens to a
+ * notification sent inside it. Rules can be set for the whole platform and
+ * for individual webhooks, and both apply.
+ *
+ * CONFIGURATION EXAMPLES:
+ *
+ * No doorbell pushes overnight, send them when the window ends instead:
+ * { "start": "23:00", "end": "07:00", "action": "delay" }
+ *
+ * Mailbox alerts on weekdays only:
+ * { "days": ["sat", "sun"], "action": "suppress" }
+ *
+ * Nothing breaks through Focus during the working day, in another zone:
+ * { "days": ["mon", "tue", "wed", "thu", "fri"], "start": "09:00",
+ *   "end": "17:00", "action": "downgrade", "timezone": "Europe/London" }
+ */
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/**
+ * ScheduleAction - What happens to a send inside a window
+ *
+ * - suppress:  Not sent at all
+ * - delay:     Held, and sent when the window ends
+ * - downgrade: Sent, but with timeSensitive removed so it respects Focus
+ */
+export type ScheduleAction = 'suppress' | 'delay' | 'downgrade';
+
+export interface ScheduleRule {
+  name?: string;         // Label for the log, e.g. "Quiet hours"
+  days?: Weekday[];      // Days the window STARTS on. Empty: every day
+  start?: string;        // "HH:mm". Omit start and end for the whole day
+  end?: string;          // "HH:mm". Earlier than start: runs past midnight
+  action: ScheduleAction;
+  timezone?: string;     // IANA zone, e.g. "America/New_York". Default: host
+}
+
+/**
+ * ScheduleVerdict - The outcome of checking the rules at one moment
+ */
+export interface ScheduleVerdict {
+  action: ScheduleAction;
+  rule: ScheduleRule;
+  endsInMs: number;      // Time until the matching window closes
+}
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MINUTES_PER_DAY = 24 * 60;
+const TIME_PATTERN = /^([01]?\d|2[0-4]):([0-5]\d)$/;
+
+/**
+ * When several windows match at once, the strictest wins.
+ */
+const ACTION_PRIORITY: Record<ScheduleAction, number> = {
+  suppress: 3,
+  delay: 2,
+  downgrade: 1,
+};
+
+/**
+ * Check a set of rules against a moment in time.
+ *
+ * Invalid rules are skipped here; validateScheduleRule() is what reports
+ * them, once, at startup.
+ *
+ * @returns The strictest matching verdict, or undefined when no window is
+ *   active and the notification should go out normally
+ */
+export function evaluateSchedules(rules: ScheduleRule[], now: Date): ScheduleVerdict | undefined {
+  let best: ScheduleVerdict | undefined;
+
+  for (const rule of rules) {
+    if (!rule || validateScheduleRule(rule)) {
+      continue;
+    }
+
+    const endsInMs = activeWindowRemaining(rule, now);
+    if (endsInMs === undefined) {
+      continue;
+    }
+
+    const verdict = { action: rule.action, rule, endsInMs };
+    if (!best || ACTION_PRIORITY[verdict.action] > ACTION_PRIORITY[best.action]
+      || (verdict.action === best.action && verdict.endsInMs > best.endsInMs)) {
+      best = verdict;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Check one rule for mistakes.
+ *
+ * @returns A description of the problem, or undefined when the rule is fine
+ */
+export function validateScheduleRule(rule: ScheduleRule): string | undefined {
+  if (!rule || typeof rule !== 'object') {
+    return 'is not an object';
+  }
+
+  // Own keys only: "toString" and the like are in every object
+  if (!Object.prototype.hasOwnProperty.call(ACTION_PRIORITY, rule.action)) {
+    return `has an unknown action "${rule.action}" (use suppress, delay or downgrade)`;
+  }
+
+  if (rule.days !== undefined) {
+    if (!Array.isArray(rule.days)) {
+      return 'has "days" that is not a list';
+    }
+    const unknown = rule.days.find(day => !WEEKDAYS.includes(day));
+    if (unknown !== undefined) {
+      return `has an unknown day "${unknown}" (use ${WEEKDAYS.join(', ')})`;
+    }
+  }
+
+  if ((rule.start === undefined) !== (rule.end === undefined)) {
+    return 'needs both "start" and "end", or neither for the whole day';
+  }
+
+  for (const time of [rule.start, rule.end]) {
+    if (time !== undefined && parseTime(time) === undefined) {
+      return `has an invalid time "${time}" (use HH:mm, 24-hour)`;
+    }
+  }
+
+  if (rule.timezone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: rule.timezone });
+    } catch {
+      return `has an unknown time zone "${rule.timezone}"`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Human-readable label for a rule, for log lines.
+ */
+export function describeScheduleRule(rule: ScheduleRule): string {
+  if (rule.name) {
+    return rule.name;
+  }
+
+  const days = rule.days && rule.days.length ? rule.days.join('/') : 'daily';
+  const hours = rule.start !== undefined ? `${rule.start}-${rule.end}` : 'all day';
+  return `${days} ${hours}`;
+}
+
+/**
+ * How long until this rule's window closes, if it is open right now.
+ *
+ * A window runs from start on one of its days until end, which is on the
+ * following day when end is earlier than start. So a Friday 23:00-07:00
+ * window still covers 03:00 on Saturday.
+ */
+function activeWindowRemaining(rule: ScheduleRule, now: Date): number | undefined {
+  const { weekday, minutes, seconds } = localParts(now, rule.timezone);
+  const start = rule.start !== undefined ? parseTime(rule.start)! : 0;
+  let end = rule.end !== undefined ? parseTime(rule.end)! : MINUTES_PER_DAY;
+
+  // start == end, e.g. 00:00-00:00, means the whole day
+  if (end === start) {
+    end = start + MINUTES_PER_DAY;
+  }
+
+  const appliesOn = (day: number) =>
+    !rule.days || rule.days.length === 0 || rule.days.includes(WEEKDAYS[(day + 7) % 7]);
+
+  const remaining = (minutesLeft: number) => minutesLeft * 60 * 1000 - seconds * 1000;
+
+  if (end > start) {
+    // Window within one calendar day, or exactly 24 hours from start
+    if (appliesOn(weekday) && minutes >= start && minutes < end) {
+      return remaining(end - minutes);
+    }
+    if (end > MINUTES_PER_DAY && appliesOn(weekday - 1) && minutes < end - MINUTES_PER_DAY) {
+      return remaining(end - MINUTES_PER_DAY - minutes);
+    }
+    return undefined;
+  }
+
+  // Overnight window: started today, or started yesterday and not over yet
+  if (appliesOn(weekday) && minutes >= start) {
+    return remaining(MINUTES_PER_DAY - minutes + end);
+  }
+  if (appliesOn(weekday - 1) && minutes < end) {
+    return remaining(end - minutes);
+  }
+  return undefined;
+}
+
+/**
+ * Weekday (0 = Sunday), minutes since midnight and seconds, in a time zone.
+ */
+function localParts(date: Date, timeZone?: string): { weekday: number; minutes: number; seconds: number } {
+  if (!timeZone) {
+    return {
+      weekday: date.getDay(),
+      minutes: date.getHours() * 60 + date.getMinutes(),
+      seconds: date.getSeconds(),
+    };
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  const weekday = WEEKDAYS.indexOf(part('weekday').slice(0, 3).toLowerCase() as Weekday);
+
+  return {
+    weekday,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+    seconds: Number(part('second')),
+  };
+}
+
+/**
+ * "HH:mm" to minutes since midnight. "24:00" is accepted as an end time.
+ */
+export function parseTime(value: string): number | undefined {
+  const match = TIME_PATTERN.exec(String(value).trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= MINUTES_PER_DAY ? minutes : undefined;
+}
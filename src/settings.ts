@@ -61,3 +61,21 @@ export const PLUGIN_NAME = 'homebridge-notify-alerts';
  * - GET  /link              Validate an ID + token pair without sending
  */
 export const NOTIFY_API_BASE_URL = 'https://push.getnotifyapp.com';
+
+/**
+ * Network timeout for every outgoing request, whichever provider makes it,
+ * so that a hanging request cannot hold a switch's send path, or the
+ * settings screen, open indefinitely.
+ */
+export const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Outbox retry defaults
+ *
+ * Applied to every webhook that does not set retryMaxAttempts or
+ * retryMaxAgeMinutes itself. An alert that is an hour late is usually still
+ * worth having (the leak is still leaking), but one that is a day late is
+ * noise, so the age limit is the one that normally ends a retry run.
+ */
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 10;
+export const DEFAULT_RETRY_MAX_AGE_MINUTES = 60;
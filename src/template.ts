@@ -0,0 +1,215 @@
+/**
+ * Template rendering for notification fields
+ *
+ * Lets a webhook's text, title, imageUrl and groupType carry placeholders
+ * that are filled in at the moment the notification is sent, so that two
+ * triggers of the same switch no longer produce identical pushes.
+ *
+ * This module has no Homebridge dependency on purpose. The custom settings
+ * UI server (homebridge-ui/server.js) loads the compiled copy from dist/ and
+ * renders with the exact same code, so what the Test button sends is what
+ * the switch would send.
+ *
+ * SYNTAX:
+ *   {{key}}                 Plain placeholder
+ *   {{key:format}}          Placeholder with a format option
+ *   {{key|filter}}          Placeholder passed through one or more filters
+ *   {{key:format|filter}}   Both
+ *
+ * PLACEHOLDERS:
+ *   {{name}}          The webhook name
+ *   {{time}}          Time of the trigger, HH:mm by default
+ *   {{date}}          Date of the trigger, YYYY-MM-DD by default
+ *   {{weekday}}       Day of the week, dddd (e.g. "Monday") by default
+ *   {{triggerCount}}  How many times this switch has fired, this one included
+ *   {{repeat}}        Escalation repeat number: 0 for the first send, then
+ *                     1, 2, 3... for each unacknowledged resend
+ *   {{env.VAR}}       Environment variable VAR of the Homebridge process.
+ *                     The format option is the fallback when VAR is unset,
+ *                     for example {{env.HOUSE_NAME:Home}}.
+ *
+ * DATE FORMAT TOKENS (for time, date and weekday):
+ *   YYYY YY  year          MMMM MMM MM M  month (name / number)
+ *   DD D     day of month  dddd ddd       weekday name
+ *   HH H     24-hour       hh h           12-hour
+ *   mm       minutes       ss             seconds
+ *   A a      AM/PM, am/pm
+ *   Text inside [square brackets] is copied through untouched.
+ *
+ * FILTERS:
+ *   upper, lower  Change case
+ *   url           Percent-encode, for use inside imageUrl
+ *
+ * Unknown placeholders are left in the output exactly as written. A typo
+ * then shows up in the notification itself, which is far easier to spot
+ * than a value that silently vanished.
+ */
+
+/**
+ * Everything a template can refer to.
+ */
+export interface TemplateContext {
+  name: string;          // Webhook name
+  triggerCount: number;  // Number of triggers including the current one
+  repeat?: number;       // Escalation repeat number, 0 when not repeating
+  now: Date;             // Moment of the trigger
+  env?: Record<string, string | undefined>;  // Defaults to process.env
+}
+
+/**
+ * The webhook fields that are run through the renderer before sending.
+ *
+ * iconUrl/iconURL are intentionally absent: an icon identifies the sender
+ * and is expected to stay put.
+ */
+export const TEMPLATE_FIELDS = ['text', 'title', 'imageUrl', 'groupType'] as const;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const DEFAULT_FORMATS: Record<string, string> = {
+  time: 'HH:mm',
+  date: 'YYYY-MM-DD',
+  weekday: 'dddd',
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * Longest tokens first, so "MMMM" is never read as "MM" twice.
+ */
+const DATE_TOKEN_PATTERN = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A|a/g;
+
+/**
+ * Render every placeholder in a template string.
+ *
+ * @param template - Raw field value from the webhook configuration
+ * @param context - Values available to placeholders
+ * @returns The rendered string
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  if (typeof template !== 'string' || !template.includes('{{')) {
+    return template;
+  }
+
+  return template.replace(PLACEHOLDER_PATTERN, (match: string, expression: string) => {
+    const [head, ...filters] = expression.split('|').map(part => part.trim());
+
+    // Split on the FIRST colon only, so formats such as HH:mm survive intact.
+    const colon = head.indexOf(':');
+    const key = (colon === -1 ? head : head.slice(0, colon)).trim();
+    const format = colon === -1 ? undefined : head.slice(colon + 1);
+
+    const value = resolvePlaceholder(key, format, context);
+    if (value === undefined) {
+      return match;
+    }
+
+    return filters.reduce(applyFilter, value);
+  });
+}
+
+/**
+ * Render the templated fields of a webhook-like object.
+ *
+ * Returns a shallow copy with TEMPLATE_FIELDS rendered; every other field is
+ * passed through unchanged. Used by both the accessory and the settings UI
+ * server so they agree field for field.
+ */
+export function renderTemplateFields<T extends object>(fields: T, context: TemplateContext): T {
+  const rendered = { ...fields } as Record<string, unknown>;
+
+  for (const field of TEMPLATE_FIELDS) {
+    const value = rendered[field];
+    if (typeof value === 'string') {
+      rendered[field] = renderTemplate(value, context);
+    }
+  }
+
+  return rendered as T;
+}
+
+/**
+ * Look up a single placeholder.
+ *
+ * @returns The value, or undefined when the key is not recognised
+ */
+function resolvePlaceholder(key: string, format: string | undefined, context: TemplateContext): string | undefined {
+  if (key.startsWith('env.')) {
+    const env = context.env ?? process.env;
+    const value = env[key.slice(4)];
+    return value !== undefined && value !== '' ? value : (format ?? '');
+  }
+
+  switch (key) {
+    case 'name':
+      return context.name;
+    case 'triggerCount':
+      return String(context.triggerCount);
+    case 'repeat':
+      return String(context.repeat ?? 0);
+    case 'time':
+    case 'date':
+    case 'weekday':
+      return formatDate(context.now, format || DEFAULT_FORMATS[key]);
+    default:
+      return undefined;
+  }
+}
+
+function applyFilter(value: string, filter: string): string {
+  switch (filter.toLowerCase()) {
+    case 'upper':
+      return value.toUpperCase();
+    case 'lower':
+      return value.toLowerCase();
+    case 'url':
+      return encodeURIComponent(value);
+    default:
+      // An unknown filter is ignored rather than failing the whole send.
+      return value;
+  }
+}
+
+/**
+ * Format a date in the Homebridge host's local time zone.
+ */
+export function formatDate(date: Date, format: string): string {
+  const hours = date.getHours();
+  const hours12 = hours % 12 === 0 ? 12 : hours % 12;
+
+  return format.replace(DATE_TOKEN_PATTERN, (token: string, literal?: string) => {
+    if (literal !== undefined) {
+      return literal;
+    }
+
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return String(date.getFullYear()).slice(-2);
+      case 'MMMM': return MONTHS[date.getMonth()];
+      case 'MMM': return MONTHS[date.getMonth()].slice(0, 3);
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'DD': return pad(date.getDate());
+      case 'D': return String(date.getDate());
+      case 'dddd': return WEEKDAYS[date.getDay()];
+      case 'ddd': return WEEKDAYS[date.getDay()].slice(0, 3);
+      case 'HH': return pad(hours);
+      case 'H': return String(hours);
+      case 'hh': return pad(hours12);
+      case 'h': return String(hours12);
+      case 'mm': return pad(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      case 'A': return hours < 12 ? 'AM' : 'PM';
+      case 'a': return hours < 12 ? 'am' : 'pm';
+      default: return token;
+    }
+  });
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,500 @@
+import type { ProfileConfig, WebhookConfig } from './platform';
+import { PROVIDER_NAMES, getProvider } from './providers';
+import { VARIANT_MODES, usableVariants } from './variants';
+
+/**
+ * Config validation - format checks beyond "is the field there"
+ *
+ * discoverDevices() refuses to set up a webhook that is missing a required
+ * field; setupProblem() is that check. Everything else here is the next
+ * layer down: values that are present but will not work, which would
+ * otherwise only show up as an API error the first time the switch is
+ * flipped, often at the moment the alert mattered.
+ *
+ * The checks return structured results rather than logging, so the plugin
+ * (at startup) and the settings UI server (while the user edits or imports,
+ * before saving) report exactly the same findings. None of the diagnostics
+ * stop a webhook from being set up; a switch that might work is more useful
+ * than one that was removed because a rule here was too strict.
+ */
+
+/**
+ * Why discoverDevices() would not set a webhook up: a field its provider
+ * cannot send without is missing.
+ */
+export interface SetupProblem {
+  message: string;       // Follows the webhook name, e.g. "is missing token"
+  hints: string[];       // What to do about it, one log line each
+}
+
+/**
+ * What a webhook's accessory identity is derived from: its key, or for a
+ * webhook without one, its name. Seeds the UUID of an accessory of its own,
+ * and is the service subtype within a shared group accessory.
+ *
+ * Lives here rather than in the platform so that the settings UI server
+ * finds the same duplicates the plugin would when checking an import.
+ */
+export function webhookIdentity(webhook: WebhookConfig): string {
+  return typeof webhook.key === 'string' && webhook.key.trim() ? webhook.key.trim() : webhook.name;
+}
+
+/**
+ * Check that a webhook has everything its provider needs to send.
+ *
+ * These are the checks that make discoverDevices() skip a webhook, so
+ * unlike validateWebhook() below, a problem found here means the switch
+ * does nothing at all. Shared with the settings UI server, which runs them
+ * over an import before it is saved.
+ *
+ * Give it the webhook after profiles have been applied.
+ *
+ * @returns The first problem found, or undefined when it can be set up
+ */
+export function setupProblem(webhook: WebhookConfig): SetupProblem | undefined {
+  // The delivery provider decides which of id, token and providerUrl
+  // are needed, and what to call them when they are missing
+  const provider = getProvider(webhook.provider);
+  if (!provider) {
+    return {
+      message: `has unknown provider "${webhook.provider}"`,
+      hints: [`Use one of: ${PROVIDER_NAMES.join(', ')}`],
+    };
+  }
+  const isNotify = provider.name === 'notify';
+
+  // Token is required for API authentication
+  // The token:
+  // - Authenticates requests to the Notify API
+  // - Is unique to each user/app
+  // - Should be kept secret
+  // - Can be found in the Notify app settings
+  if (provider.requires.token && !webhook.token) {
+    return isNotify
+      ? { message: 'is missing token', hints: ['Get your token from the Notify app settings, or choose a profile'] }
+      : { message: `is missing token (the ${provider.name} ${provider.labels.token})`, hints: [] };
+  }
+
+  // Text is the actual notification message
+  // This is what the user will see in the notification
+  // Without it, there's nothing to send. A timed or stateful switch
+  // may carry its "on" message in onText instead, and any webhook
+  // may carry it in its variants, provided each of them has text.
+  if (!webhook.text && !webhook.onText && !hasVariantText(webhook)) {
+    return { message: 'is missing text', hints: ['Add a "text" field with your notification message'] };
+  }
+
+  // ID is required (unified field for device or group)
+  // The ID determines where the notification goes:
+  // - Device IDs: Send to a specific device (e.g., "ABC12345")
+  // - Group IDs: Send to a group (must start with "GRP", e.g., "GRP56789")
+  // The API auto-detects the type based on the "GRP" prefix
+  if (provider.requires.id && !webhook.id) {
+    return {
+      message: 'is missing id',
+      hints: isNotify
+        ? [
+          'Add an "id" field with your Device ID or Group ID (groups start with GRP)',
+          'Example device: "ABC12345", Example group: "GRP56789"',
+        ]
+        : [`Add an "id" field with the ${provider.name} ${provider.labels.id}`],
+    };
+  }
+
+  // The generic HTTP provider has nowhere to send without a URL
+  if (provider.requires.url && !webhook.providerUrl) {
+    return { message: `uses the ${provider.name} provider but has no providerUrl`, hints: [] };
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a webhook's variants can stand in for its text: every usable
+ * variant sets one, so whichever is drawn has a message to send.
+ */
+function hasVariantText(webhook: WebhookConfig): boolean {
+  const variants = usableVariants(webhook.variants);
+  return variants.length > 0 && variants.every(variant => variant.text);
+}
+
+/**
+ * A line for the log that does not concern one webhook's setup as a whole:
+ * a profile that is left out, or a recipient that is skipped.
+ */
+export interface StartupNotice {
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+/**
+ * What discoverDevices() makes of one webhook.
+ */
+export interface StartupVerdict {
+  identity?: string;        // Set when the webhook claims its accessory;
+                            // unset when it is skipped outright
+  disabled?: boolean;       // enabled: false. Nothing else was checked
+  webhook?: WebhookConfig;  // With profiles applied, when it can be set up
+  problem?: SetupProblem;   // Why it is skipped, or why its switch is inert
+  notices: StartupNotice[]; // Recipients left out, as it is set up anyway
+}
+
+/**
+ * StartupChecks - The checks discoverDevices() runs over each webhook
+ *
+ * In order: the name, a duplicate name, a duplicate key, enabled, the
+ * credential profiles, then setupProblem(). The plugin logs the verdicts
+ * at startup and the settings UI server shows them for the webhooks being
+ * edited or imported, so both come from this one copy rather than two that
+ * drift apart.
+ *
+ * Stateful: give it every webhook, in config order, since a duplicate is
+ * only a duplicate of one before it.
+ */
+export class StartupChecks {
+  /**
+   * Profiles that were left out, found when indexing them.
+   */
+  public readonly profileNotices: StartupNotice[] = [];
+
+  private readonly profiles = new Map<string, ProfileConfig>();
+  private readonly names = new Set<string>();
+  private readonly identities = new Set<string>();
+
+  /**
+   * Index the platform's credential profiles by name.
+   *
+   * Entries without a name, id or token are left out, so any webhook that
+   * refers to one is reported as dangling rather than sending with half
+   * its credentials.
+   *
+   * @param profiles - The platform's profiles list, as configured
+   */
+  constructor(profiles: unknown) {
+    if (!Array.isArray(profiles)) {
+      return;
+    }
+
+    profiles.forEach((profile: ProfileConfig | undefined, index) => {
+      if (!profile || !profile.name) {
+        this.profileNotices.push({ severity: 'warning', message: `Profile ${index + 1} has no name. It will be ignored.` });
+        return;
+      }
+
+      if (!profile.id || !profile.token) {
+        this.profileNotices.push({
+          severity: 'error',
+          message: `Profile "${profile.name}" needs both an id and a token. It will be ignored.`,
+        });
+        return;
+      }
+
+      if (this.profiles.has(profile.name)) {
+        this.profileNotices.push({
+          severity: 'warning',
+          message: `Profile name "${profile.name}" is used more than once. The first one is used.`,
+        });
+        return;
+      }
+
+      this.profiles.set(profile.name, profile);
+    });
+  }
+
+  /**
+   * Check the next webhook.
+   *
+   * A webhook that gets as far as claiming its identity keeps its switch
+   * even when a later check fails, so a momentarily blank token does not
+   * delete it from HomeKit (see discoverDevices()).
+   */
+  check(webhook: WebhookConfig): StartupVerdict {
+    if (!webhook.name) {
+      return {
+        problem: { message: 'is missing name', hints: ['Please add a "name" field to your webhook configuration'] },
+        notices: [],
+      };
+    }
+
+    if (this.names.has(webhook.name)) {
+      return {
+        problem: {
+          message: 'has the same name as an earlier webhook, so it is skipped',
+          hints: ['Each webhook needs a unique name to appear as its own switch'],
+        },
+        notices: [],
+      };
+    }
+
+    const identity = webhookIdentity(webhook);
+    if (this.identities.has(identity)) {
+      return {
+        problem: {
+          message: 'has the same key as an earlier webhook, so it is skipped',
+          hints: ['Remove its "key" field; the settings UI will give it a new one'],
+        },
+        notices: [],
+      };
+    }
+
+    this.names.add(webhook.name);
+    this.identities.add(identity);
+
+    // The rest of a disabled webhook's settings are not checked, so it can
+    // be parked half-configured
+    if (webhook.enabled === false) {
+      return { identity, disabled: true, notices: [] };
+    }
+
+    const notices: StartupNotice[] = [];
+    const resolved = this.applyProfiles(webhook, notices);
+    if ('message' in resolved) {
+      return { identity, problem: resolved, notices };
+    }
+
+    const problem = setupProblem(resolved);
+    return problem ? { identity, problem, notices } : { identity, webhook: resolved, notices };
+  }
+
+  /**
+   * Resolve the profile references in a webhook and its recipients.
+   *
+   * Returns a copy; the user's config object is left untouched. Values set
+   * directly on the webhook or recipient take precedence over the profile.
+   *
+   * @returns The resolved webhook, or the problem when the webhook itself
+   *   refers to a profile that does not exist
+   */
+  private applyProfiles(webhook: WebhookConfig, notices: StartupNotice[]): WebhookConfig | SetupProblem {
+    const resolved: WebhookConfig = { ...webhook };
+
+    if (webhook.profile) {
+      const profile = this.profiles.get(webhook.profile);
+      if (!profile) {
+        return {
+          message: `uses profile "${webhook.profile}", which is not defined`,
+          hints: ['Add it under "profiles", or fix the name on the webhook'],
+        };
+      }
+      resolved.id = webhook.id || profile.id;
+      resolved.token = webhook.token || profile.token;
+    }
+
+    // A dangling recipient profile drops that recipient only; the rest of
+    // the webhook can still send.
+    if (Array.isArray(webhook.recipients)) {
+      resolved.recipients = webhook.recipients.flatMap((recipient) => {
+        if (!recipient || !recipient.profile) {
+          return [recipient];
+        }
+
+        const profile = this.profiles.get(recipient.profile);
+        if (!profile) {
+          notices.push({
+            severity: 'error',
+            message: `A recipient of webhook "${webhook.name}" uses profile "${recipient.profile}", ` +
+              'which is not defined. It will be skipped.',
+          });
+          return [];
+        }
+        return [{ ...recipient, id: recipient.id || profile.id, token: recipient.token || profile.token }];
+      });
+    }
+
+    return resolved;
+  }
+}
+
+/**
+ * 'error': sends will fail as configured. 'warning': sends go out, but
+ * probably not as intended.
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * One finding about one webhook.
+ */
+export interface ConfigDiagnostic {
+  severity: DiagnosticSeverity;
+  field: string;         // Config key, e.g. "iconURL" or "recipients[2].id"
+  message: string;       // Fit for the log and the settings UI, without the
+                        // webhook name (callers add it where needed)
+}
+
+/**
+ * Largest text the Notify API accepts, in UTF-8 bytes. The API counts
+ * bytes, so a message full of emoji reaches it well before 16,384
+ * characters.
+ */
+export const NOTIFY_TEXT_LIMIT_BYTES = 16 * 1024;
+
+/**
+ * The three ID shapes the Notify API recognises. The API tells groups from
+ * devices by prefix, so a group ID with a character missing is not read as a
+ * device ID; it simply matches nothing.
+ */
+const ID_SHAPES: Array<{ prefix: string; pattern: RegExp; description: string }> = [
+  { prefix: 'GRP', pattern: /^GRP[A-Za-z0-9]{5}$/, description: 'Group IDs are "GRP" plus 5 characters, e.g. "GRP56789"' },
+  { prefix: 'WB', pattern: /^WB[A-Za-z0-9]{14}$/, description: 'Web device IDs are "WB" plus 14 characters' },
+  { prefix: '', pattern: /^[A-Za-z0-9]{8}$/, description: 'Device IDs are 8 letters and digits, e.g. "ABC12345"' },
+];
+
+/**
+ * Check every webhook field whose format can be judged without calling the
+ * API.
+ *
+ * Give it the webhook after profiles have been applied, so the IDs checked
+ * are the ones that will be sent to. Provider-specific checks (ID shapes,
+ * HTTPS images, the text limit) apply to the Notify API only; other
+ * providers have their own rules, which their servers report.
+ *
+ * @returns Diagnostics in field order; empty when nothing looks wrong
+ */
+export function validateWebhook(webhook: WebhookConfig): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  const isNotify = !webhook.provider || webhook.provider === 'notify';
+
+  if (isNotify) {
+    checkId(diagnostics, 'id', webhook.id);
+    checkId(diagnostics, 'escalateId', webhook.escalateId);
+
+    for (const field of ['text', 'onText', 'offText'] as const) {
+      checkTextLength(diagnostics, field, webhook[field]);
+    }
+
+    checkHttps(diagnostics, 'iconURL', webhook.iconURL);
+    checkHttps(diagnostics, 'iconUrl', webhook.iconUrl);
+    checkHttps(diagnostics, 'imageUrl', webhook.imageUrl);
+  }
+
+  /**
+   * Both spellings are accepted; buildNotifyPayload() uses iconUrl when both
+   * are set. The settings UI only shows iconURL, so someone changing the icon
+   * there would see no effect at all.
+   */
+  if (webhook.iconUrl && webhook.iconURL && webhook.iconUrl !== webhook.iconURL) {
+    diagnostics.push({
+      severity: 'warning',
+      field: 'iconUrl',
+      message: `iconUrl and iconURL are both set and differ; iconUrl (${webhook.iconUrl}) is used. ` +
+        'Remove one of them',
+    });
+  }
+
+  if (webhook.variantMode && !VARIANT_MODES.includes(webhook.variantMode)) {
+    diagnostics.push({
+      severity: 'warning',
+      field: 'variantMode',
+      message: `Unknown variant mode "${webhook.variantMode}"; variants are picked at random. ` +
+        `Use one of: ${VARIANT_MODES.join(', ')}`,
+    });
+  }
+
+  if (Array.isArray(webhook.variants)) {
+    webhook.variants.forEach((variant, index) => {
+      if (!variant) {
+        return;
+      }
+      const prefix = `variants[${index}].`;
+      if (!variant.text && !variant.title && !variant.imageUrl) {
+        diagnostics.push({
+          severity: 'warning',
+          field: `variants[${index}]`,
+          message: 'Sets none of text, title or imageUrl, so it is never sent',
+        });
+      }
+      if (variant.weight !== undefined && !(Number(variant.weight) >= 0)) {
+        diagnostics.push({
+          severity: 'warning',
+          field: `${prefix}weight`,
+          message: `"${variant.weight}" is not a weight of 0 or more; it counts as 0`,
+        });
+      }
+      if (isNotify) {
+        checkTextLength(diagnostics, `${prefix}text`, variant.text);
+        checkHttps(diagnostics, `${prefix}imageUrl`, variant.imageUrl);
+      }
+    });
+  }
+
+  if (isNotify && Array.isArray(webhook.recipients)) {
+    webhook.recipients.forEach((recipient, index) => {
+      if (!recipient) {
+        return;
+      }
+      const prefix = `recipients[${index}].`;
+      checkId(diagnostics, `${prefix}id`, recipient.id);
+      checkTextLength(diagnostics, `${prefix}text`, recipient.text);
+      checkHttps(diagnostics, `${prefix}imageUrl`, recipient.imageUrl);
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Render a diagnostic as one log line.
+ */
+export function formatDiagnostic(webhookName: string, diagnostic: ConfigDiagnostic): string {
+  return `Webhook "${webhookName}" ${diagnostic.field}: ${diagnostic.message}`;
+}
+
+function checkId(diagnostics: ConfigDiagnostic[], field: string, id: string | undefined) {
+  if (!id) {
+    return;
+  }
+
+  // An 8-character device ID may happen to start with WB, so any shape will do
+  if (ID_SHAPES.some(candidate => candidate.pattern.test(id))) {
+    return;
+  }
+
+  const shape = ID_SHAPES.find(candidate => id.trim().startsWith(candidate.prefix))!;
+
+  const whitespace = id.trim() !== id ? ' It has spaces around it, probably from copying.' : '';
+  diagnostics.push({
+    severity: 'error',
+    field,
+    message: `"${id}" is not a valid ID. ${shape.description}.${whitespace}`,
+  });
+}
+
+/**
+ * The limit is checked on the configured text. Template placeholders can
+ * still push a rendered message over it, which the API then reports.
+ */
+function checkTextLength(diagnostics: ConfigDiagnostic[], field: string, text: string | undefined) {
+  if (typeof text !== 'string') {
+    return;
+  }
+
+  const bytes = Buffer.byteLength(text, 'utf8');
+  if (bytes > NOTIFY_TEXT_LIMIT_BYTES) {
+    diagnostics.push({
+      severity: 'error',
+      field,
+      message: `${Math.ceil(bytes / 1024)} KB, over the Notify API's ${NOTIFY_TEXT_LIMIT_BYTES / 1024} KB limit`,
+    });
+  }
+}
+
+/**
+ * Images are fetched by the device, which only loads HTTPS. A URL built
+ * entirely from a template placeholder is left alone, since its scheme is
+ * only known at send time.
+ */
+function checkHttps(diagnostics: ConfigDiagnostic[], field: string, url: string | undefined) {
+  if (!url || url.trim().startsWith('{{')) {
+    return;
+  }
+
+  if (!/^https:\/\/[^/\s]+/i.test(url.trim())) {
+    diagnostics.push({
+      severity: 'warning',
+      field,
+      message: /^http:\/\//i.test(url.trim())
+        ? `Plain http:// images are not shown; use https:// (${url})`
+        : `"${url}" is not an https:// URL, so the image will not be shown`,
+    });
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Message variants: rotating wording for notifications that repeat
+ *
+ * A reminder that reads exactly the same every week stops being read. A
+ * webhook can list variants of its message; each trigger sends one of them
+ * in place of the webhook's own text, and optionally its title and image.
+ *
+ * CONFIGURATION EXAMPLE:
+ * "variants": [
+ *   { "text": "Bins out tonight!", "weight": 3 },
+ *   { "text": "It's trash night again", "title": "Chores" },
+ *   { "text": "The bins won't walk to the kerb by themselves",
+ *     "imageUrl": "https://example.com/bin.png" }
+ * ],
+ * "variantMode": "round-robin"
+ *
+ * Kept free of Homebridge imports so the settings UI server can load it
+ * from dist/ and make the Test button send the same variants.
+ */
+
+/**
+ * VariantMode - How the next variant is chosen
+ *
+ * - random:      Any variant, equally likely. The default
+ * - weighted:    Random, in proportion to each variant's weight
+ * - round-robin: Each in turn, in list order, continuing across restarts
+ */
+export type VariantMode = 'random' | 'weighted' | 'round-robin';
+
+export const VARIANT_MODES: VariantMode[] = ['random', 'weighted', 'round-robin'];
+
+/**
+ * MessageVariant - One alternative wording
+ *
+ * Fields left out fall back to the webhook's own, so a list can vary just
+ * the text and keep one title.
+ */
+export interface MessageVariant {
+  text?: string;
+  title?: string;
+  imageUrl?: string;
+  weight?: number;       // weighted mode only. Default 1; 0 never picks it
+}
+
+/**
+ * The variants a webhook can actually send: entries that set at least one
+ * of text, title or imageUrl. Anything else in the list is ignored.
+ */
+export function usableVariants(variants: unknown): MessageVariant[] {
+  if (!Array.isArray(variants)) {
+    return [];
+  }
+
+  return variants.filter((variant: MessageVariant) =>
+    !!variant && typeof variant === 'object' && !!(variant.text || variant.title || variant.imageUrl));
+}
+
+/**
+ * Choose the variant for one send.
+ *
+ * @param variants - From usableVariants(); must not be empty
+ * @param mode - Selection mode. An unknown one behaves as random
+ * @param position - Sends made so far, for round-robin
+ * @param random - Source of randomness, between 0 and 1
+ * @returns Index into variants
+ */
+export function pickVariant(
+  variants: MessageVariant[],
+  mode: VariantMode | undefined,
+  position: number,
+  random: () => number = Math.random,
+): number {
+  if (mode === 'round-robin') {
+    return ((Math.floor(position) % variants.length) + variants.length) % variants.length;
+  }
+
+  if (mode === 'weighted') {
+    const weights = variants.map(variant => {
+      const weight = variant.weight === undefined ? 1 : Number(variant.weight);
+      return Number.isFinite(weight) && weight > 0 ? weight : 0;
+    });
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    // All weights zero or broken: better any variant than none
+    if (total > 0) {
+      let target = random() * total;
+      let last = 0;
+      for (let index = 0; index < weights.length; index++) {
+        if (weights[index] > 0) {
+          last = index;
+        }
+        target -= weights[index];
+        if (target < 0 && weights[index] > 0) {
+          return index;
+        }
+      }
+      // Rounding can leave target at zero after the last weight
+      return last;
+    }
+  }
+
+  return Math.min(Math.floor(random() * variants.length), variants.length - 1);
+}
+
+/**
+ * The message fields with a variant applied on top.
+ */
+export function withVariant<T extends { text?: string; title?: string; imageUrl?: string }>(
+  fields: T,
+  variant: MessageVariant,
+): T {
+  return {
+    ...fields,
+    ...(variant.text ? { text: variant.text } : {}),
+    ...(variant.title ? { title: variant.title } : {}),
+    ...(variant.imageUrl ? { imageUrl: variant.imageUrl } : {}),
+  };
+}
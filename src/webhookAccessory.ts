@@ -1,7 +1,13 @@
 import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
-import axios from 'axios';
-import { NotifyWebhookPlatform, WebhookConfig } from './platform';
-import { NOTIFY_API_BASE_URL } from './settings';
+import { NotifyWebhookPlatform, WebhookConfig, RecipientConfig } from './platform';
+import { renderTemplateFields } from './template';
+import { describeError, errorCategory, errorStatus, isRetryableError } from './errors';
+import { TriggerCooldown, CoalescedTriggers, describeCoalesced } from './cooldown';
+import { ScheduleRule, evaluateSchedules, describeScheduleRule } from './schedule';
+import { getProvider, ProviderResult } from './providers';
+import { buildNotifyPayload } from './notifyApi';
+import { usableVariants, pickVariant, withVariant } from './variants';
+import { webhookIdentity } from './validation';
 
 /**
  * NotifyPayload - JSON body sent to POST /notify-json/{id}
@@ -9,7 +15,7 @@ import { NOTIFY_API_BASE_URL } from './settings';
  * Field names are case-sensitive and must match the API exactly.
  * Only 'text' is required.
  */
-interface NotifyPayload {
+export interface NotifyPayload {
   text: string;
   title?: string;
   groupType?: string;
@@ -18,6 +24,123 @@ interface NotifyPayload {
   timeSensitive?: boolean;
 }
 
+/**
+ * Fields a caller of the inbound trigger endpoint may replace, subject to
+ * the webhook's allowOverrides list.
+ */
+export type TriggerOverrides = Partial<Pick<NotifyPayload, 'text' | 'title' | 'imageUrl'>>;
+
+/**
+ * Where a notification goes: an ID and the token that authenticates it.
+ */
+export interface NotifyTarget {
+  id: string;
+  token: string;
+  label?: string;                  // Recipient name, for the log
+  recipient?: string;              // Recipient ID kept with a queued retry; absent for the webhook's own
+  overrides?: TriggerOverrides;    // Recipient's own text, title or imageUrl
+}
+
+/**
+ * Fields a recipient entry may set for itself.
+ */
+const RECIPIENT_OVERRIDE_FIELDS = ['text', 'title', 'imageUrl'] as const;
+
+/**
+ * One recipient's copy of a notification, as it travels through schedules
+ * and delivery.
+ */
+interface Delivery {
+  target: NotifyTarget;
+  payload: NotifyPayload;
+}
+
+/**
+ * What sendNotification() returns: the provider's result, or a dry run
+ * marker when nothing was sent.
+ */
+type SendResult = ProviderResult & { dryRun?: boolean };
+
+/**
+ * Per-send details passed from trigger() and the escalation loop to
+ * dispatch().
+ */
+interface DispatchOptions {
+  coalesced?: CoalescedTriggers;   // Repeats folded in by the cooldown
+  repeat?: number;                 // Escalation repeat number; 0 or absent for the original
+  escalated?: boolean;             // Past escalateAfterRepeats: use the escalation settings
+}
+
+/**
+ * SwitchState - What is persisted for one switch
+ *
+ * For a switch on an accessory of its own, these live directly in the
+ * accessory context, where they always have. For a switch that shares an
+ * accessory with others (see WebhookConfig.group) each has its own entry in
+ * context.switches, keyed by service subtype.
+ */
+export interface SwitchState {
+  webhook: WebhookConfig;
+  triggerCount?: number;   // For {{triggerCount}}
+  on?: boolean;            // Stateful switches only
+  variantIndex?: number;   // Round-robin variants: messages built so far
+}
+
+/**
+ * Subtype of a webhook's optional fault ContactSensor, derived from the
+ * switch's own subtype so that grouped webhooks each get their own.
+ */
+export const FAULT_SENSOR_SUFFIX = '#fault';
+
+function faultSensorSubtype(subtype?: string): string {
+  return `${subtype ?? ''}${FAULT_SENSOR_SUFFIX}`;
+}
+
+/**
+ * Which message a trigger sends. Momentary switches only ever send 'on'.
+ */
+export type SwitchTransition = 'on' | 'off';
+
+/**
+ * SwitchMode - How the HomeKit switch behaves
+ *
+ * See setOn() for the details of each.
+ */
+export type SwitchMode = 'momentary' | 'timed' | 'stateful';
+
+/**
+ * How long a momentary switch stays on, and the default countdown for a
+ * timed switch that does not set autoOffSeconds.
+ */
+export const MOMENTARY_AUTO_OFF_MS = 1000;
+const DEFAULT_TIMED_AUTO_OFF_SECONDS = 60;
+
+/**
+ * Resends before an unacknowledged escalation gives up, when the webhook
+ * does not set escalateMaxRepeats.
+ */
+const DEFAULT_ESCALATION_MAX_REPEATS = 10;
+
+/**
+ * TriggerResult - What happened to one firing of a webhook
+ *
+ * - sent:       Delivered
+ * - partial:    Delivered to a group, but some members failed, or to some
+ *               of the webhook's recipients but not all
+ * - queued:     Failed temporarily and is waiting in the outbox
+ * - suppressed: Dropped by the webhook's cooldown, a schedule, or the
+ *               platform's mute switch
+ * - deferred:   Held by the cooldown or a schedule, to be sent when it
+ *               ends, or added to a digest
+ * - failed:     Failed for good; see error
+ */
+export interface TriggerResult {
+  outcome: 'sent' | 'partial' | 'queued' | 'suppressed' | 'deferred' | 'failed';
+  error?: string;
+  recipients?: { delivered: number; total: number };   // Webhooks with recipients only
+  dryRun?: boolean;        // Dry run: the request was logged, not sent
+}
+
 /**
  * NotifyWebhookAccessory Class
  *
@@ -75,7 +198,69 @@ export class NotifyWebhookAccessory {
    * Stores the webhook configuration from config.json for easy access.
    * This includes the token, message, ID, and optional fields like title and icon.
    */
-  private webhookConfig: WebhookConfig;
+  public readonly webhookConfig: WebhookConfig;
+
+  /**
+   * The webhook's identity (see webhookIdentity()): its key, or its name
+   * when it has none. Everything the platform stores for this webhook, from
+   * queued retries to history, is filed under this rather than the name, so
+   * renaming the webhook keeps them.
+   */
+  public readonly identity: string;
+
+  /**
+   * This switch's persisted state, inside the accessory context. See
+   * SwitchState.
+   */
+  private readonly state: SwitchState;
+
+  /**
+   * Duplicate suppression state for cooldownSeconds, plus the timer and
+   * overrides for a deferred send when cooldownMode is "defer".
+   */
+  private readonly cooldown: TriggerCooldown;
+  private deferTimer?: NodeJS.Timeout;
+  private deferredOverrides: TriggerOverrides = {};
+
+  /**
+   * Switch behaviour, and the current state for the timed and stateful
+   * modes. A momentary switch always reports off and never uses these.
+   * The mode is public for the trigger endpoint, which only fires
+   * momentary switches.
+   */
+  public readonly mode: SwitchMode;
+  private on = false;
+  private autoOffTimer?: NodeJS.Timeout;
+
+  /**
+   * Escalation state: the timer for the next repeat (set while escalating)
+   * and how many repeats have gone out so far.
+   */
+  private escalationTimer?: NodeJS.Timeout;
+  private escalationRepeats = 0;
+
+  /**
+   * Schedule rules for this webhook (platform rules included), and the
+   * single notification held back by a "delay" window, if any.
+   */
+  private readonly scheduleRules: ScheduleRule[];
+  private held?: { deliveries: Delivery[]; options: DispatchOptions; count: number; since: number };
+  private holdTimer?: NodeJS.Timeout;
+
+  /**
+   * Delivery health. The IDs whose most recent send failed (or reached only
+   * part of a group), and the optional ContactSensor that mirrors it.
+   * Tracked per ID so that one recipient succeeding does not hide another
+   * one failing.
+   */
+  private readonly failingTargets = new Set<string>();
+  private readonly faultSensor?: Service;
+
+  /**
+   * Additional recipients beyond the webhook's own id, without the entries
+   * the platform already reported as unusable.
+   */
+  private readonly recipients: RecipientConfig[];
 
   /**
    * Accessory Constructor
@@ -93,10 +278,13 @@ export class NotifyWebhookAccessory {
    *
    * @param platform - Reference to the platform for accessing Homebridge API
    * @param accessory - The PlatformAccessory representing this webhook
+   * @param subtype - Service subtype when the accessory is shared by a group
+   *   of webhooks; omitted for a webhook with an accessory of its own
    */
   constructor(
     private readonly platform: NotifyWebhookPlatform,
     private readonly accessory: PlatformAccessory,
+    private readonly subtype?: string,
   ) {
     /**
      * STEP 1: Extract Configuration
@@ -104,8 +292,28 @@ export class NotifyWebhookAccessory {
      * The webhook configuration was attached to the accessory's context
      * by the platform when it created/updated this accessory.
      * Context is Homebridge's way of persisting custom data with accessories.
+     * A grouped switch finds its configuration under its own subtype.
      */
-    this.webhookConfig = accessory.context.webhook;
+    this.state = subtype === undefined
+      ? accessory.context as SwitchState
+      : accessory.context.switches[subtype];
+    this.webhookConfig = this.state.webhook;
+    this.identity = webhookIdentity(this.webhookConfig);
+
+    this.mode = this.webhookConfig.mode === 'timed' || this.webhookConfig.mode === 'stateful'
+      ? this.webhookConfig.mode
+      : 'momentary';
+
+    this.scheduleRules = this.platform.schedulesFor(this.webhookConfig);
+
+    this.recipients = Array.isArray(this.webhookConfig.recipients)
+      ? this.webhookConfig.recipients.filter(recipient => recipient && recipient.id)
+      : [];
+
+    this.cooldown = new TriggerCooldown(
+      (Number(this.webhookConfig.cooldownSeconds) || 0) * 1000,
+      this.webhookConfig.cooldownMode === 'defer' ? 'defer' : 'drop',
+    );
 
     /**
      * STEP 2: Set Accessory Information
@@ -120,11 +328,16 @@ export class NotifyWebhookAccessory {
      * - SerialNumber: Unique identifier (we use the webhook name)
      *
      * These values don't affect functionality but help with device management.
+     *
+     * A grouped accessory is described by its group name rather than by any
+     * one of its switches.
      */
     this.accessory.getService(this.platform.Service.AccessoryInformation)!
       .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Notify')              // Company name
-      .setCharacteristic(this.platform.Characteristic.Model, 'Webhook Switch')             // Model description
-      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.webhookConfig.name);  // Unique ID
+      .setCharacteristic(this.platform.Characteristic.Model,
+        subtype === undefined ? 'Webhook Switch' : 'Webhook Switch Group')                 // Model description
+      .setCharacteristic(this.platform.Characteristic.SerialNumber,
+        subtype === undefined ? this.webhookConfig.name : this.accessory.displayName);     // Unique ID
 
     /**
      * STEP 3: Get or Create Switch Service
@@ -146,10 +359,19 @@ export class NotifyWebhookAccessory {
      *
      * The || (OR) operator means: "Try to get existing service, or create new one if not found"
      *
+     * A grouped accessory carries one Switch per webhook, told apart by
+     * subtype. The platform has already removed the subtypes that are no
+     * longer configured (see reconcileGroup() in platform.ts).
+     *
      * Switch service documentation: https://developers.homebridge.io/#/service/Switch
      */
-    this.service = this.accessory.getService(this.platform.Service.Switch)
-      || this.accessory.addService(this.platform.Service.Switch);
+    if (subtype === undefined) {
+      this.service = this.accessory.getService(this.platform.Service.Switch)
+        || this.accessory.addService(this.platform.Service.Switch);
+    } else {
+      this.service = this.accessory.getServiceById(this.platform.Service.Switch, subtype)
+        || this.accessory.addService(this.platform.Service.Switch, this.webhookConfig.name, subtype);
+    }
 
     /**
      * STEP 4: Set the Switch Name
@@ -160,6 +382,15 @@ export class NotifyWebhookAccessory {
      */
     this.service.setCharacteristic(this.platform.Characteristic.Name, this.webhookConfig.name);
 
+    // With several switches on one accessory, the Home app names each from
+    // ConfiguredName; without it they all show the accessory's name.
+    if (subtype !== undefined) {
+      if (!this.service.testCharacteristic(this.platform.Characteristic.ConfiguredName)) {
+        this.service.addOptionalCharacteristic(this.platform.Characteristic.ConfiguredName);
+      }
+      this.service.setCharacteristic(this.platform.Characteristic.ConfiguredName, this.webhookConfig.name);
+    }
+
     /**
      * STEP 5: Register Event Handlers
      *
@@ -175,13 +406,15 @@ export class NotifyWebhookAccessory {
      * IMPORTANT: We use .bind(this) to ensure 'this' refers to our class instance
      * inside the handler methods. Without .bind(this), 'this' would be undefined.
      *
-     * EVENT FLOW:
+     * EVENT FLOW (momentary mode, the default):
      * 1. User/automation turns on the switch
      * 2. onSet handler is called with value = true
      * 3. The auto-off timer is scheduled, then the notification is sent
      *    in the background so the handler returns immediately
      * 4. After 1 second the switch turns itself back off
      * 5. onGet always returns false to show the switch is ready
+     *
+     * Timed and stateful switches differ; see setOn().
      */
     this.service.getCharacteristic(this.platform.Characteristic.On)
       .onGet(this.getOn.bind(this))     // Handle state queries
@@ -190,19 +423,63 @@ export class NotifyWebhookAccessory {
     /**
      * STEP 6: Initialize Switch State
      *
-     * Start with the switch in the OFF position (false).
+     * Momentary and timed switches start in the OFF position (false).
      * This ensures:
      * - Consistent starting state on Homebridge restart
      * - No accidental notifications on startup
      * - Switch appears "ready" and "normal" in Home app
      * - Prevents confusion from switch showing "on" when nothing happened
      *
-     * false = switch is off (default/normal state)
+     * A stateful switch restores the state it had before the restart,
+     * from the accessory context. Restoring it sends nothing: the
+     * transition it represents was already notified.
      */
+    if (this.mode === 'stateful') {
+      this.on = this.state.on === true;
+    } else if (this.state.on !== undefined) {
+      // Switched away from stateful; forget the stale state
+      delete this.state.on;
+    }
+
+    this.service.updateCharacteristic(this.platform.Characteristic.On, this.on);
+
+    /**
+     * STEP 7: Delivery Fault Reporting
+     *
+     * StatusFault on the switch, and optionally a ContactSensor, report
+     * whether notifications are getting through (see reportDelivery()).
+     * The sensor is what makes this usable in automations: HomeKit can
+     * trigger on a contact sensor opening, not on a switch's fault flag.
+     * Both start clear; a failure before the restart is not remembered.
+     */
+    if (!this.service.testCharacteristic(this.platform.Characteristic.StatusFault)) {
+      this.service.addOptionalCharacteristic(this.platform.Characteristic.StatusFault);
+    }
     this.service.updateCharacteristic(
-      this.platform.Characteristic.On,
-      false, // Start in off state
+      this.platform.Characteristic.StatusFault,
+      this.platform.Characteristic.StatusFault.NO_FAULT,
     );
+
+    const sensorSubtype = faultSensorSubtype(subtype);
+    const existingSensor = this.accessory.getServiceById(this.platform.Service.ContactSensor, sensorSubtype);
+
+    if (this.webhookConfig.faultSensor) {
+      const sensorName = `${this.webhookConfig.name} Delivery`;
+      this.faultSensor = existingSensor
+        || this.accessory.addService(this.platform.Service.ContactSensor, sensorName, sensorSubtype);
+      this.faultSensor.setCharacteristic(this.platform.Characteristic.Name, sensorName);
+      this.faultSensor.updateCharacteristic(
+        this.platform.Characteristic.ContactSensorState,
+        this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED,
+      );
+      this.faultSensor.updateCharacteristic(
+        this.platform.Characteristic.StatusFault,
+        this.platform.Characteristic.StatusFault.NO_FAULT,
+      );
+    } else if (existingSensor) {
+      // faultSensor was turned off since the last run
+      this.accessory.removeService(existingSensor);
+    }
   }
 
   /**
@@ -220,25 +497,22 @@ export class NotifyWebhookAccessory {
    * - false (0): Switch is off/normal state
    * - true (1): Switch is on/triggered state
    *
-   * WHY ALWAYS RETURN OFF?
-   * Since our switch auto-turns off after triggering, we always report false (off).
-   * This ensures:
-   * - The switch appears "ready" in the Home app
-   * - Users can immediately trigger it again
-   * - The UI shows the switch in its normal/resting state
-   * - Automations that watch for "turned on" events can fire again
-   * - The switch doesn't look "stuck" in the on position
+   * WHAT IS REPORTED DEPENDS ON THE MODE:
+   * - momentary: Always off. The switch auto-turns off a second after
+   *   triggering, so reporting off keeps it looking "ready" in the Home app
+   *   and lets automations that watch for "turned on" fire again.
+   * - timed: On while the auto-off timer is running, then off.
+   * - stateful: Whatever it was last set to, remembered across restarts.
    *
-   * The actual "on" state happens in setOn when triggered,
-   * but it only lasts 1 second before auto-turning off.
+   * A momentary switch with escalation configured reports on while it is
+   * escalating, so the Home app shows an alert still waiting to be
+   * acknowledged.
    *
-   * @returns Promise<CharacteristicValue> - Always returns false (off state)
+   * @returns Promise<CharacteristicValue> - The current switch state
    */
   async getOn(): Promise<CharacteristicValue> {
-    // Always report OFF (false) state since the switch auto-turns off
-    // This makes it always ready for the next trigger
-    // false = off/normal state
-    return false;
+    // A momentary switch only stays on while it is escalating
+    return this.mode === 'momentary' ? this.escalationTimer !== undefined : this.on;
   }
 
   /**
@@ -251,27 +525,26 @@ export class NotifyWebhookAccessory {
    * - false (0): Switch off - normal/resting state
    * - true (1): Switch on - triggered state (sends notification)
    *
-   * TRIGGER FLOW:
-   * 1. User/automation turns on the switch
-   * 2. This handler is called with value = true (on)
-   * 3. Log the trigger event for debugging
-   * 4. Schedule the auto-off timer (1 second)
-   * 5. Send notification via Notify API in the background
-   * 6. Log success or failure when the request completes
-   *
-   * WHY AUTO-OFF?
-   * The auto-off behavior is crucial for making these switches useful:
-   * - Switches are always ready to trigger again
-   * - No need to manually "reset" the switch
-   * - Works perfectly with automations that watch for "turned on" events
-   * - Visual feedback: users see the switch turn on briefly, then off
-   * - Prevents stuck "on" state that would be confusing
-   * - Makes the switch feel like a "button" rather than a toggle
+   * MODES:
+   * - momentary (default): Every "on" sends the message, and the switch
+   *   turns itself off again after 1 second, like a button. "Off" is
+   *   ignored.
+   * - timed: Like momentary, but the switch stays on for autoOffSeconds.
+   *   Turning it on while it is already on restarts the countdown without
+   *   sending again.
+   * - stateful: A real toggle. The state is kept in the accessory context
+   *   so it survives restarts. Turning it on sends onText (or text), turning
+   *   it off sends offText if one is configured. Setting the state it is
+   *   already in sends nothing, since HomeKit scenes routinely re-apply the
+   *   same value.
+   *
+   * In the timed and stateful modes, every on-to-off transition, including
+   * the timed auto-off, sends offText when it is set.
    *
    * AUTOMATION EXAMPLES:
-   * "When motion is detected, turn on the Front Door Alert"
-   * "When garage door opens, turn on the Security Alert"
-   * "At 10 PM, turn on the Bedtime Reminder"
+   * "When motion is detected, turn on the Front Door Alert"     (momentary)
+   * "When I leave home, turn on Away Mode" / "... turn off"     (stateful)
+   * "When the garage opens, turn on Garage Left Open"           (stateful)
    *
    * SIRI EXAMPLES:
    * "Hey Siri, turn on Front Door Alert"
@@ -280,34 +553,48 @@ export class NotifyWebhookAccessory {
    * @param value - The new state (false = off, true = on)
    */
   async setOn(value: CharacteristicValue) {
-    /**
-     * TRIGGER DETECTION
-     *
-     * We only take action when the switch is turned ON (value = true).
-     * If the switch is being turned OFF (value = false), we ignore it because:
-     * - Turning off is handled automatically by our timer
-     * - Manual off commands would be redundant
-     * - We don't want to send notifications when turning off
-     * - Prevents double-processing and confusion
-     *
-     * The check: if (value) means "if value is truthy" which for booleans means true
-     */
-    if (value) {
+    const on = !!value;
+
+    if (this.mode === 'momentary') {
+      /**
+       * MOMENTARY: Only "on" matters. Turning off is handled by the auto-off
+       * timer, and a manual off must never send anything. The exception is
+       * an escalating switch, where turning it off is the acknowledgement.
+       */
+      if (!on) {
+        this.stopEscalation(true);
+        return;
+      }
+
       /**
-       * STEP 1: Log the Trigger
-       *
        * Log to Homebridge console for debugging and user feedback.
        * This helps users:
        * - Confirm automations are working
        * - Troubleshoot issues
        * - Monitor when notifications are sent
-       * - Track switch activity in logs
-       * - Debug timing issues
        */
       this.platform.log.info(`Switch turned on, triggering webhook: ${this.webhookConfig.name}`);
 
       /**
-       * STEP 2: Auto-Off Timer
+       * Escalation
+       *
+       * An escalating switch stays on, resending until it is turned off in
+       * HomeKit, instead of resetting after a second. Turning it on again
+       * while it is already escalating changes nothing.
+       */
+      if (this.escalates()) {
+        if (this.escalationTimer) {
+          this.platform.log.debug(`Already escalating, ignoring trigger: ${this.webhookConfig.name}`);
+          return;
+        }
+
+        this.startEscalation();
+        void this.trigger();
+        return;
+      }
+
+      /**
+       * Auto-Off Timer
        *
        * After 1 second (1000ms), automatically turn off the switch.
        * This is scheduled BEFORE the API call so the switch always resets
@@ -319,270 +606,876 @@ export class NotifyWebhookAccessory {
        * - Good UX: Clear indication that something happened
        */
       setTimeout(() => {
-        // Update the switch state back to off (false)
-        this.service.updateCharacteristic(
-          this.platform.Characteristic.On,
-          false, // Turn off
-        );
-
-        // Log the auto-off for debugging
-        // This only appears if Homebridge is running in debug mode (-D flag)
+        this.service.updateCharacteristic(this.platform.Characteristic.On, false);
         this.platform.log.debug(`Auto-turned off switch: ${this.webhookConfig.name}`);
-      }, 1000); // 1000 milliseconds = 1 second
+      }, MOMENTARY_AUTO_OFF_MS);
 
       /**
-       * STEP 3: Send Notification (in the background)
+       * Send Notification (in the background)
        *
        * The request is deliberately NOT awaited. HomeKit expects set
        * handlers to return quickly; holding this handler open for the
        * duration of the HTTP request (up to the 10 second timeout)
        * triggers HAP slow-response warnings and can make the accessory
-       * appear unresponsive in the Home app. Errors are logged rather
-       * than thrown for the same reason: throwing would surface a
-       * "No Response" error to the user and break automations.
-       *
-       * Possible errors:
-       * - Network connectivity issues (no internet)
-       * - Invalid API token (wrong or expired token)
-       * - Invalid device/group ID (device doesn't exist)
-       * - API rate limiting (too many requests)
-       * - Notify service downtime (API unavailable)
-       * - Timeout (request takes too long)
+       * appear unresponsive in the Home app. trigger() never rejects, and
+       * logs every outcome itself, for the same reason: throwing would
+       * surface a "No Response" error to the user and break automations.
        */
-      this.sendNotification()
-        .then((result) => {
-          /**
-           * A group send with failures already logged a warning inside
-           * sendNotification. Claiming success as well would contradict it,
-           * so the success line is only written when nothing failed.
-           */
-          if (result && typeof result.failureCount === 'number' && result.failureCount > 0) {
-            return;
-          }
-
-          this.platform.log.info(`Successfully sent notification for: ${this.webhookConfig.name}`);
-        })
-        .catch((error) => {
-          this.platform.log.error(
-            `Failed to send notification for ${this.webhookConfig.name}: ${this.describeError(error)}`,
-          );
-        });
+      void this.trigger();
+      return;
     }
+
     /**
-     * ELSE CASE: Switch Being Turned Off
-     *
-     * If value === false, the switch is being turned off.
-     * We do nothing in this case because:
-     * - Our auto-off timer already handles this
-     * - Manual off commands are redundant
-     * - We don't want to send notifications when turning off
-     * - Simplifies the logic and prevents double-processing
-     * - Prevents potential infinite loops
+     * TIMED AND STATEFUL: Act on transitions only.
      */
+    if (on === this.on) {
+      if (on && this.mode === 'timed') {
+        this.startAutoOffTimer();
+        this.platform.log.debug(`Restarted auto-off timer for: ${this.webhookConfig.name}`);
+      }
+      return;
+    }
+
+    if (on) {
+      this.platform.log.info(`Switch turned on, triggering webhook: ${this.webhookConfig.name}`);
+      this.setState(true);
+
+      if (this.mode === 'timed') {
+        this.startAutoOffTimer();
+      }
+
+      if (this.escalates()) {
+        this.startEscalation();
+      }
+
+      void this.trigger({}, 'on');
+    } else {
+      this.platform.log.info(`Switch turned off: ${this.webhookConfig.name}`);
+      this.turnedOff();
+    }
   }
 
   /**
-   * Build a Safe, Human-Readable Error Message
+   * Record a new on/off state.
    *
-   * IMPORTANT: Never log the raw axios error object. It embeds the full
-   * request config, including the token query parameter, so logging it
-   * directly would leak the user's API token into the Homebridge log.
-   * This extracts only the useful, non-sensitive parts.
+   * Stateful switches persist it in the accessory context, and ask
+   * Homebridge to write the cache straight away so a crash or power cut
+   * cannot lose it. A timed switch's state is deliberately not persisted:
+   * its countdown cannot survive a restart, so it always starts off.
+   */
+  private setState(on: boolean) {
+    this.on = on;
+
+    if (this.mode === 'stateful') {
+      this.state.on = on;
+      this.platform.api.updatePlatformAccessories([this.accessory]);
+    }
+  }
+
+  /**
+   * Handle the switch reaching "off", whether from HomeKit or the timer.
    *
-   * @param error - The error thrown by sendNotification
-   * @returns A concise message with status code and API response details
+   * @param byUser - false when the timed auto-off did it, so an escalation
+   *   it ends is not logged as acknowledged
    */
-  private describeError(error: unknown): string {
-    if (axios.isAxiosError(error)) {
-      const status = error.response ? `HTTP ${error.response.status}` : (error.code || 'network error');
-      const detail = error.response?.data ? ` - ${JSON.stringify(error.response.data)}` : '';
-      return `${status}: ${error.message}${detail}`;
+  private turnedOff(byUser = true) {
+    if (this.autoOffTimer) {
+      clearTimeout(this.autoOffTimer);
+      this.autoOffTimer = undefined;
     }
-    return error instanceof Error ? error.message : String(error);
+
+    this.stopEscalation(byUser);
+
+    this.setState(false);
+
+    if (this.webhookConfig.offText) {
+      void this.trigger({}, 'off');
+    }
+  }
+
+  /**
+   * (Re)start the countdown for a timed switch.
+   */
+  private startAutoOffTimer() {
+    if (this.autoOffTimer) {
+      clearTimeout(this.autoOffTimer);
+    }
+
+    const seconds = Number(this.webhookConfig.autoOffSeconds) > 0
+      ? Number(this.webhookConfig.autoOffSeconds)
+      : DEFAULT_TIMED_AUTO_OFF_SECONDS;
+
+    this.autoOffTimer = setTimeout(() => {
+      this.autoOffTimer = undefined;
+      this.service.updateCharacteristic(this.platform.Characteristic.On, false);
+      this.platform.log.debug(`Auto-turned off switch after ${seconds}s: ${this.webhookConfig.name}`);
+      this.turnedOff(false);
+    }, seconds * 1000);
+  }
+  /**
+   * Whether this webhook resends until acknowledged.
+   */
+  private escalates(): boolean {
+    return Number(this.webhookConfig.escalateIntervalMinutes) > 0;
   }
 
   /**
-   * Send Notification via Notify API
+   * Start Escalation
    *
-   * Posts to the unified /notify-json/{id} endpoint, which auto-detects
-   * whether the ID is a device or a group based on the "GRP" prefix.
+   * For alerts that must not be slept through, such as a water leak. After
+   * the first send, the message is repeated every escalateIntervalMinutes
+   * until the switch is turned off in HomeKit (the acknowledgement) or
+   * escalateMaxRepeats resends have gone out.
    *
-   * API documentation: https://getnotifyapp.com/apidocs/
+   * Repeats after the first escalateAfterRepeats of them are "escalated":
+   * they can be forced time sensitive, and can go to a different ID, for
+   * example a group covering the whole family instead of one phone.
    *
-   * Example request:
-   * POST https://push.getnotifyapp.com/notify-json/ABC12345?token=XYZ789TOKEN123
-   * Content-Type: application/json
-   * {
-   *   "text": "Server CPU at 95%!",
-   *   "title": "Alert",
-   *   "iconUrl": "https://icons.getnotifyapp.com/icon123.png",
-   *   "imageUrl": "https://example.com/graph.png",
-   *   "groupType": "monitoring",
-   *   "timeSensitive": true
-   * }
+   * Repeats bypass the cooldown, since they are the plugin's own doing, and
+   * are not queued in the outbox when they fail, since the next repeat is
+   * already on its way.
+   */
+  private startEscalation() {
+    this.stopEscalation(false);
+    this.escalationRepeats = 0;
+    this.scheduleEscalation();
+  }
+
+  private scheduleEscalation() {
+    const intervalMs = Number(this.webhookConfig.escalateIntervalMinutes) * 60 * 1000;
+    this.escalationTimer = setTimeout(() => this.escalate(), intervalMs);
+  }
+
+  /**
+   * Send one escalation repeat and schedule the next, or wind down.
+   */
+  private escalate() {
+    this.escalationRepeats += 1;
+
+    const repeat = this.escalationRepeats;
+    const maxRepeats = Number(this.webhookConfig.escalateMaxRepeats) > 0
+      ? Number(this.webhookConfig.escalateMaxRepeats)
+      : DEFAULT_ESCALATION_MAX_REPEATS;
+    const escalated = repeat > (Number(this.webhookConfig.escalateAfterRepeats) || 0);
+
+    this.platform.log.warn(
+      `Not acknowledged, resending ${this.webhookConfig.name} (repeat ${repeat} of ${maxRepeats})` +
+        (escalated && this.webhookConfig.escalateId ? ` to ${this.webhookConfig.escalateId}` : ''),
+    );
+    void this.dispatch({}, 'on', { repeat, escalated });
+
+    if (repeat < maxRepeats) {
+      this.scheduleEscalation();
+      return;
+    }
+
+    this.escalationTimer = undefined;
+    this.platform.log.warn(
+      `Escalation for ${this.webhookConfig.name} ended after ${repeat} repeats without being acknowledged`,
+    );
+
+    // A momentary switch was only held on for the escalation; let it go.
+    if (this.mode === 'momentary') {
+      this.service.updateCharacteristic(this.platform.Characteristic.On, false);
+    }
+  }
+
+  /**
+   * Stop repeating.
    *
-   * Device success response (200):
-   * { "success": true, "type": "device", "deviceId": "ABC12345",
-   *   "message": "Notification sent successfully" }
+   * @param acknowledged - true when the switch was turned off by someone,
+   *   which is worth an info line in the log
+   */
+  private stopEscalation(acknowledged: boolean) {
+    if (!this.escalationTimer) {
+      return;
+    }
+
+    clearTimeout(this.escalationTimer);
+    this.escalationTimer = undefined;
+
+    if (acknowledged) {
+      this.platform.log.info(
+        `Escalation acknowledged after ${this.escalationRepeats} repeat(s): ${this.webhookConfig.name}`,
+      );
+    }
+  }
+
+  /**
+   * Where escalated repeats go: escalateId, authenticated by escalateToken
+   * or, when that is unset, the webhook's own token. Undefined means the
+   * webhook's usual target.
+   */
+  private escalationTarget(): NotifyTarget | undefined {
+    if (!this.webhookConfig.escalateId) {
+      return undefined;
+    }
+
+    return {
+      id: this.webhookConfig.escalateId,
+      token: this.webhookConfig.escalateToken || this.webhookConfig.token,
+      label: 'escalation',
+    };
+  }
+
+
+  /**
+   * Fire the Webhook
    *
-   * Group success response (200) reports per-device results. Note that a
-   * partial failure is still HTTP 200, so failureCount must be inspected:
-   * { "success": true, "type": "group", "groupId": "GRP45678",
-   *   "deviceCount": 3, "successCount": 2, "failureCount": 1, "results": [...] }
+   * The single send path behind every way a webhook can be fired: the
+   * HomeKit switch and the inbound HTTP trigger endpoint both come through
+   * here, so counting, rendering, retry queuing and logging behave the same
+   * whichever one was used.
    *
-   * Error responses: 400 missing text or invalid JSON, 403 invalid token,
-   * 404 ID not found, 415 wrong Content-Type, 429 rate limited.
+   * Never rejects. The outcome is reported through the returned promise
+   * instead, which the HTTP endpoint turns into a response and the switch
+   * simply ignores.
    *
-   * @returns The API response data
-   * @throws Error if the request fails or the API reports a non-200 status
+   * @param overrides - Per-request replacements for text, title or imageUrl.
+   *   Used verbatim, never run through the template renderer, so a caller
+   *   cannot use {{env.VAR}} to read the Homebridge environment.
+   * @param transition - Which message to send. 'off' is only used by timed
+   *   and stateful switches, and bypasses both the trigger count and the
+   *   cooldown: a "now closed" message must never be swallowed because the
+   *   "left open" one went out a moment earlier.
+   * @returns What happened to the notification
    */
-  private async sendNotification() {
+  async trigger(overrides: TriggerOverrides = {}, transition: SwitchTransition = 'on'): Promise<TriggerResult> {
     /**
-     * Build the endpoint URL.
-     *
-     * The ID goes in the path, so it must be URL-encoded. Without this an
-     * ID containing a space or slash (easy to introduce by pasting) would
-     * produce a malformed URL rather than a clean 404 from the API.
+     * A muted trigger stops before it leaves any trace: no trigger count,
+     * no metrics, no cooldown window that would hold back the first trigger
+     * after unmuting, and no step through the webhook's variants.
      */
-    const endpoint = `${NOTIFY_API_BASE_URL}/notify-json/${encodeURIComponent(this.webhookConfig.id)}`;
+    if (this.platform.muted) {
+      this.platform.log.info(`Not sending ${this.webhookConfig.name}: notifications are muted`);
+      return { outcome: 'suppressed' };
+    }
+
+    if (transition === 'off') {
+      return this.dispatch(overrides, 'off');
+    }
 
     /**
-     * Build the request payload.
+     * Count the trigger for {{triggerCount}}.
      *
-     * Only 'text' is required. Optional fields are omitted entirely rather
-     * than sent as null, keeping the payload minimal.
+     * Kept in the accessory context so the count carries on across
+     * restarts instead of starting again from 1 every time Homebridge
+     * reboots.
+     */
+    const triggerCount = (Number(this.state.triggerCount) || 0) + 1;
+    this.state.triggerCount = triggerCount;
+    this.platform.metrics?.recordTrigger(this.webhookConfig.name);
+
+    /**
+     * Cooldown
      *
-     * Field names are case-sensitive: 'iconUrl' and 'imageUrl' both end in
-     * a lowercase "rl".
+     * Repeats inside the webhook's cooldown window are dropped, or held for
+     * one send when the window closes. Either way they are only logged at
+     * debug level: a suppressed repeat is the feature working, not a fault.
      */
-    const payload: NotifyPayload = {
-      text: this.webhookConfig.text,
-    };
+    const decision = this.cooldown.check(Date.now());
 
-    if (this.webhookConfig.title) {
-      payload.title = this.webhookConfig.title;
+    if (decision.action === 'drop') {
+      this.platform.log.debug(
+        `Suppressed trigger for ${this.webhookConfig.name}: within the ${this.webhookConfig.cooldownSeconds}s ` +
+          `cooldown (${Math.ceil(decision.remainingMs / 1000)}s remaining)`,
+      );
+      return { outcome: 'suppressed' };
     }
 
-    // Threading identifier. Notifications sharing a groupType collapse into
-    // one thread on the device. This does not affect group delivery.
-    if (this.webhookConfig.groupType) {
-      payload.groupType = this.webhookConfig.groupType;
+    if (decision.action === 'defer') {
+      // The latest caller's overrides win for the single deferred send
+      this.deferredOverrides = overrides;
+
+      if (!this.deferTimer) {
+        this.deferTimer = setTimeout(() => {
+          this.deferTimer = undefined;
+          const coalesced = this.cooldown.release(Date.now());
+          void this.dispatch(this.deferredOverrides, 'on', { coalesced });
+        }, decision.remainingMs);
+      }
+
+      this.platform.log.debug(
+        `Deferred trigger for ${this.webhookConfig.name}: within the ${this.webhookConfig.cooldownSeconds}s ` +
+          `cooldown, sending in ${Math.ceil(decision.remainingMs / 1000)}s`,
+      );
+      return { outcome: 'deferred' };
+    }
+
+    return this.dispatch(overrides, 'on', { coalesced: decision.coalesced });
+  }
+
+  /**
+   * Build and send one notification, queuing it for retry if that fails.
+   *
+   * Each recipient gets its own copy of the payload: the webhook's message,
+   * then the recipient's overrides, then the per-request overrides on top.
+   *
+   * @param overrides - Per-request field replacements (see trigger())
+   * @param transition - Whether to send the on or the off message
+   * @param options - Cooldown and escalation details for this send
+   */
+  private async dispatch(
+    overrides: TriggerOverrides,
+    transition: SwitchTransition,
+    options: DispatchOptions = {},
+  ): Promise<TriggerResult> {
+    const now = new Date();
+    const triggerCount = Number(this.state.triggerCount) || 1;
+    const repeat = options.repeat ?? 0;
+    const built = this.buildPayload(triggerCount, now, transition, repeat);
+
+    const deliveries = this.targetsFor(options).map((target): Delivery => {
+      // Recipient overrides replace the "on" message only. Turn-off
+      // messages are the same for everyone.
+      const recipient = transition === 'on' && target.overrides
+        ? renderTemplateFields(target.overrides, { name: this.webhookConfig.name, triggerCount, now, repeat })
+        : {};
+
+      const payload: NotifyPayload = { ...built, ...recipient, ...overrides };
+
+      if (options.coalesced && this.webhookConfig.cooldownCoalesce) {
+        payload.text += ` (${describeCoalesced(options.coalesced, now.getTime())})`;
+      }
+
+      if (options.escalated && this.webhookConfig.escalateTimeSensitive) {
+        payload.timeSensitive = true;
+      }
+
+      return { target, payload };
+    });
+
+    // Only the first send of a trigger moves the rotation on. Escalation
+    // repeats resend the variant the trigger drew.
+    const advance = transition === 'on' && repeat === 0 ? () => this.advanceVariant() : undefined;
+    return this.route(deliveries, options, advance);
+  }
+
+  /**
+   * Apply Schedule Rules
+   *
+   * Checks the platform and webhook schedule rules (see schedule.ts) and
+   * either sends the payload, drops it, holds it until the window closes,
+   * or strips timeSensitive from it first.
+   *
+   * Only one held notification is kept per webhook. A doorbell pressed five
+   * times overnight produces one push at the end of quiet hours, not five;
+   * the latest message wins, and with cooldownCoalesce on it notes how many
+   * were held.
+   *
+   * The platform's mute switch is checked first. trigger() checks it too,
+   * so that a muted trigger is not counted at all; the check here covers
+   * held, deferred and escalated sends, which were accepted before the
+   * switch was turned on. Muted sends are dropped, not held: the point of
+   * muting is that nobody hears about it afterwards either.
+   *
+   * @param accepted - Called, before anything is awaited, once the
+   *   notification is known to go ahead: sent, held, or added to a digest.
+   *   Not called when it is muted or suppressed, nor for a held
+   *   notification when it is released
+   */
+  private async route(deliveries: Delivery[], options: DispatchOptions, accepted?: () => void): Promise<TriggerResult> {
+    if (this.platform.muted) {
+      this.platform.log.info(`Not sending ${this.webhookConfig.name}: notifications are muted`);
+      return { outcome: 'suppressed' };
     }
 
     /**
-     * Sender avatar icon.
-     *
-     * Accept both spellings: 'iconUrl' matches the API and is preferred for
-     * new configs, while 'iconURL' is the historical key this plugin shipped
-     * with. Reading both means existing configs keep working untouched.
+     * Digest: the notification joins its bucket instead of going out. Only
+     * the webhook's own message is kept, since the summary has one
+     * destination of its own, and schedules are not applied: the digest's
+     * own times decide when it is sent.
      */
-    const iconUrl = this.webhookConfig.iconUrl || this.webhookConfig.iconURL;
-    if (iconUrl) {
-      payload.iconUrl = iconUrl;
+    if (this.webhookConfig.digest && this.platform.digests) {
+      accepted?.();
+      this.platform.digests.add(
+        this.webhookConfig.digest, this.identity, this.webhookConfig.name, deliveries[0].payload);
+      this.platform.log.debug(
+        `Added ${this.webhookConfig.name} to digest "${this.webhookConfig.digest}" ` +
+          `(${this.platform.digests.size(this.webhookConfig.digest)} waiting)`,
+      );
+      return { outcome: 'deferred' };
+    }
+
+    const verdict = evaluateSchedules(this.scheduleRules, new Date());
+
+    if (verdict?.action === 'suppress') {
+      this.platform.log.info(
+        `Not sending ${this.webhookConfig.name}: suppressed by schedule "${describeScheduleRule(verdict.rule)}"`,
+      );
+      return { outcome: 'suppressed' };
+    }
+
+    if (verdict?.action === 'delay') {
+      accepted?.();
+      this.hold(deliveries, options, verdict.endsInMs);
+      this.platform.log.info(
+        `Holding ${this.webhookConfig.name} until schedule "${describeScheduleRule(verdict.rule)}" ends ` +
+          `in ${Math.ceil(verdict.endsInMs / 60000)} min`,
+      );
+      return { outcome: 'deferred' };
+    }
+
+    if (verdict?.action === 'downgrade' && deliveries.some(({ payload }) => payload.timeSensitive)) {
+      this.platform.log.debug(
+        `Sending ${this.webhookConfig.name} without timeSensitive: schedule "${describeScheduleRule(verdict.rule)}"`,
+      );
+      deliveries.forEach(({ payload }) => delete payload.timeSensitive);
+    }
+
+    accepted?.();
+    return this.deliver(deliveries, options);
+  }
+
+  /**
+   * Keep a notification back until a delay window closes, replacing any
+   * notification already held.
+   */
+  private hold(deliveries: Delivery[], options: DispatchOptions, delayMs: number) {
+    const count = (this.held?.count ?? 0) + 1;
+    this.held = { deliveries, options, count, since: this.held?.since ?? Date.now() };
+
+    if (this.holdTimer) {
+      clearTimeout(this.holdTimer);
+    }
+
+    // A second of slack so the release lands after the window, not on its edge
+    this.holdTimer = setTimeout(() => {
+      this.holdTimer = undefined;
+      const held = this.held!;
+      this.held = undefined;
+
+      if (held.count > 1 && this.webhookConfig.cooldownCoalesce) {
+        const note = describeCoalesced({ count: held.count, sinceMs: held.since }, Date.now());
+        held.deliveries.forEach(({ payload }) => payload.text += ` (${note})`);
+      }
+
+      void this.route(held.deliveries, held.options);
+    }, delayMs + 1000);
+  }
+
+  /**
+   * Send finished payloads to every recipient in parallel.
+   *
+   * A webhook with one recipient logs exactly as it always has. With
+   * several, failures are logged per recipient and the outcome is summed up
+   * in one line, in the same "N of M" form as a group's partial delivery.
+   */
+  private async deliver(deliveries: Delivery[], options: DispatchOptions): Promise<TriggerResult> {
+    if (deliveries.length === 1) {
+      return this.deliverOne(deliveries[0], options, false);
+    }
+
+    const results = await Promise.all(deliveries.map(delivery => this.deliverOne(delivery, options, true)));
+    const count = (outcome: TriggerResult['outcome']) => results.filter(result => result.outcome === outcome).length;
+
+    const total = results.length;
+    const delivered = count('sent');
+    const partial = count('partial');
+    const queued = count('queued');
+    const recipients = { delivered, total };
+
+    if (results.every(result => result.dryRun)) {
+      return { outcome: 'sent', recipients, dryRun: true };
+    }
+
+    if (delivered === total) {
+      this.platform.log.info(`Successfully sent notification for: ${this.webhookConfig.name} (${total} recipients)`);
+      return { outcome: 'sent', recipients };
+    }
+
+    this.platform.log.warn(
+      `Notification for ${this.webhookConfig.name}: ${describeReach(delivered, total, 'recipients')} delivered` +
+        (partial ? `, ${partial} only partly` : '') +
+        (queued ? `, ${queued} queued for retry` : ''),
+    );
+
+    const error = results.map(result => result.error).filter(Boolean).join('; ') || undefined;
+
+    if (delivered + partial > 0) {
+      return { outcome: 'partial', error, recipients };
+    }
+    return { outcome: queued > 0 ? 'queued' : 'failed', error, recipients };
+  }
+
+  /**
+   * Send one recipient's payload, queuing it for retry if that fails.
+   *
+   * @param shared - Part of a send to several recipients: name the
+   *   recipient in the log, and leave the success line to deliver()
+   */
+  private async deliverOne(delivery: Delivery, options: DispatchOptions, shared: boolean): Promise<TriggerResult> {
+    const { target, payload } = delivery;
+    const repeat = options.repeat ?? 0;
+    const to = shared ? ` to ${target.label ?? target.id}` : '';
+
+    try {
+      const result = await this.sendNotification(payload, target);
+
+      /**
+       * A group send with failures already logged a warning inside
+       * sendNotification. Claiming success as well would contradict it,
+       * so the success line is only written when nothing failed.
+       */
+      if (result && typeof result.failureCount === 'number' && result.failureCount > 0) {
+        return { outcome: 'partial' };
+      }
+
+      // The dry run already logged the request; there is no success to claim
+      if (result.dryRun) {
+        return { outcome: 'sent', dryRun: true };
+      }
+
+      if (!shared) {
+        this.platform.log.info(`Successfully sent notification for: ${this.webhookConfig.name}`);
+      }
+      return { outcome: 'sent' };
+    } catch (error) {
+      /**
+       * Queue Transient Failures
+       *
+       * A network drop, timeout, 5xx or rate limit goes to the outbox to
+       * be retried with backoff, so a leak alert raised during an
+       * internet blip still arrives. Anything the API actively refused
+       * (bad token, unknown ID) is only logged: retrying cannot fix it.
+       *
+       * Only the recipients that failed are queued, so a retry never sends
+       * a second copy to someone who already has it.
+       *
+       * Escalation repeats are never queued. The next repeat is already
+       * on its way, and a queued copy landing alongside it would double up.
+       */
+      if (repeat === 0 && isRetryableError(error)
+        && this.platform.outbox?.enqueue(this.identity, this.webhookConfig.name, payload, error, target.recipient)) {
+        this.platform.log.warn(
+          `Failed to send notification for ${this.webhookConfig.name}${to}, queued for retry: ${describeError(error)}`,
+        );
+        return { outcome: 'queued', error: describeError(error) };
+      }
+
+      this.platform.log.error(
+        `Failed to send notification for ${this.webhookConfig.name}${to}: ${describeError(error)}`,
+      );
+      return { outcome: 'failed', error: describeError(error) };
+    }
+  }
+
+  /**
+   * Everyone a send goes to.
+   *
+   * Normally the webhook's own id and token, followed by its recipients.
+   * Escalated repeats with an escalateId go only to that target instead.
+   */
+  private targetsFor(options: DispatchOptions): NotifyTarget[] {
+    const escalation = options.escalated ? this.escalationTarget() : undefined;
+    if (escalation) {
+      return [escalation];
+    }
+
+    return [
+      { id: this.webhookConfig.id, token: this.webhookConfig.token },
+      ...this.recipients.map(recipient => this.recipientTarget(recipient)),
+    ];
+  }
+
+  /**
+   * Look up a recipient for a queued retry.
+   *
+   * @param recipient - The recipient ID stored with the outbox entry, or
+   *   undefined for the webhook's own id and token
+   * @returns The target, or undefined when the recipient has since been
+   *   removed from the configuration
+   */
+  targetFor(recipient?: string): NotifyTarget | undefined {
+    if (recipient === undefined) {
+      return { id: this.webhookConfig.id, token: this.webhookConfig.token };
     }
 
-    // Hero image shown inside the expanded notification
-    if (this.webhookConfig.imageUrl) {
-      payload.imageUrl = this.webhookConfig.imageUrl;
+    const match = this.recipients.find(entry => entry.id === recipient);
+    return match ? this.recipientTarget(match) : undefined;
+  }
+
+  private recipientTarget(recipient: RecipientConfig): NotifyTarget {
+    const overrides: TriggerOverrides = {};
+    for (const field of RECIPIENT_OVERRIDE_FIELDS) {
+      if (recipient[field]) {
+        overrides[field] = recipient[field];
+      }
     }
 
-    // Allow the notification to break through Focus and Do Not Disturb
-    if (this.webhookConfig.timeSensitive) {
-      payload.timeSensitive = true;
+    return {
+      id: recipient.id,
+      token: recipient.token || this.webhookConfig.token,
+      label: recipient.name,
+      recipient: recipient.id,
+      overrides,
+    };
+  }
+
+  /**
+   * Build the JSON body for a trigger.
+   *
+   * Kept separate from delivery so that the outbox can store the rendered
+   * payload of a failed send and replay it later exactly as it was, with
+   * {{time}} still showing when the alert fired rather than when the retry
+   * finally got through.
+   *
+   * @param triggerCount - Value for the {{triggerCount}} placeholder
+   * @param triggeredAt - Moment of the trigger, for {{time}} and friends
+   * @param transition - 'on' uses onText/onTitle where set, 'off' uses
+   *   offText/offTitle; both fall back to title, and 'on' to text. 'on'
+   *   then applies one of the webhook's variants, if it has any
+   * @param repeat - Escalation repeat number, for {{repeat}}
+   */
+  private buildPayload(
+    triggerCount: number,
+    triggeredAt: Date,
+    transition: SwitchTransition = 'on',
+    repeat = 0,
+  ): NotifyPayload {
+    const source: WebhookConfig = { ...this.webhookConfig };
+    if (transition === 'off') {
+      source.text = this.webhookConfig.offText || this.webhookConfig.text;
+      source.title = this.webhookConfig.offTitle || this.webhookConfig.title;
+    } else {
+      source.text = this.webhookConfig.onText || this.webhookConfig.text;
+      source.title = this.webhookConfig.onTitle || this.webhookConfig.title;
+
+      /**
+       * Message variants replace the "on" message. Round-robin draws the
+       * variant at the current position; the position only moves on once
+       * the trigger goes ahead (see advanceVariant()), so building the same
+       * trigger again, for an escalation repeat, draws the same variant.
+       */
+      const variants = usableVariants(this.webhookConfig.variants);
+      if (variants.length > 0) {
+        const index = pickVariant(variants, this.webhookConfig.variantMode, Number(this.state.variantIndex) || 0);
+        Object.assign(source, withVariant(source, variants[index]));
+      }
     }
 
     /**
-     * Debug logging
+     * Fill in template placeholders.
      *
-     * Only appears when Homebridge runs in debug mode (-D). The token is
-     * truncated because Homebridge logs are routinely shared in bug reports.
+     * Rendered once up front and used for everything below, so the payload
+     * never mixes raw and rendered values. See template.ts for the syntax.
      */
-    this.platform.log.debug('Sending notification to:', endpoint);
-    this.platform.log.debug(
-      'With token:',
-      this.webhookConfig.token.substring(0, Math.min(5, this.webhookConfig.token.length)) + '...',
-    );
-    this.platform.log.debug('Payload:', JSON.stringify(payload, null, 2));
+    const webhook = renderTemplateFields(source, {
+      name: this.webhookConfig.name,
+      triggerCount,
+      now: triggeredAt,
+      repeat,
+    });
+
+    return buildNotifyPayload(webhook);
+  }
+
+  /**
+   * Move the round-robin rotation on, once per trigger that goes ahead.
+   *
+   * The position sits in the accessory context next to triggerCount, and
+   * is written to the cache straight away, as a stateful switch's state
+   * is, so the rotation carries on after a restart or a crash instead of
+   * opening with the first variant again. Random and weighted picks need
+   * no position, so they write nothing.
+   */
+  private advanceVariant() {
+    if (this.webhookConfig.variantMode !== 'round-robin' || usableVariants(this.webhookConfig.variants).length === 0) {
+      return;
+    }
 
+    this.state.variantIndex = (Number(this.state.variantIndex) || 0) + 1;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
+
+  /**
+   * Send Notification
+   *
+   * Delivers through the webhook's provider: the Notify API unless the
+   * webhook names another (see providers/). The Notify API's own request
+   * and responses are described in providers/notify.ts.
+   *
+   * Public so the platform's outbox can replay a queued payload through the
+   * same request and error handling as a live trigger. The token is always
+   * read from the current configuration rather than stored with the payload,
+   * so a token rotated while an entry waits in the outbox is picked up and
+   * the outbox file never holds a credential.
+   *
+   * @param payload - Body to send, from buildPayload()
+   * @param target - Where to send it. Defaults to the webhook's own ID and
+   *   token; escalation passes its alternative target here.
+   * @returns The provider's result
+   * @throws NotifyApiError for a refused request, or the axios error for a
+   *   network failure, timeout or 5xx
+   */
+  async sendNotification(payload: NotifyPayload, target?: NotifyTarget): Promise<SendResult> {
     /**
-     * Make the API request.
-     *
-     * The token is passed as a query parameter, which is what the API
-     * expects. maxRedirects is deliberately 0: because the token rides in
-     * the query string, following a cross-host redirect would forward the
-     * credential to whatever host the redirect names. A 3xx is handled
-     * explicitly below instead.
+     * Dry run: log the request instead of making it. Nothing was attempted,
+     * so nothing goes in the history or the fault state either.
      */
-    const response = await axios.post(
-      endpoint,
+    if (this.webhookConfig.dryRun || this.platform.config.dryRun) {
+      this.logDryRun(payload, target);
+      return { dryRun: true };
+    }
+
+    const startedAt = Date.now();
+    const entry = {
+      time: new Date(startedAt).toISOString(),
+      webhook: this.webhookConfig.name,
+      key: this.identity,
+      id: (target ?? this.webhookConfig).id,
+      recipient: target?.label,
       payload,
-      {
-        headers: {
-          // Required. The API returns 415 without it.
-          'Content-Type': 'application/json',
-        },
-        params: {
-          token: this.webhookConfig.token,
-        },
-        // Network timeout to prevent a hanging request
-        timeout: 10000,
-        // Do not follow redirects (see above)
-        maxRedirects: 0,
-        // Let us handle 3xx and 4xx ourselves; axios throws only on 5xx
-        validateStatus: (status) => status < 500,
-      },
-    );
+    };
 
     /**
-     * Redirect handling
-     *
-     * A 3xx means the API endpoint has moved. Since redirects are not
-     * followed, report it as an actionable message naming the new location
-     * rather than a bare status code, because the fix is to update the
-     * plugin rather than anything in the user's configuration.
+     * Record every attempt in the delivery history (see history.ts), with
+     * the same token-free error text the log gets, and in the metrics (see
+     * metrics.ts) when the endpoint is enabled.
      */
-    if (response.status >= 300 && response.status < 400) {
-      const location = response.headers?.location;
-      throw new Error(
-        'The Notify API endpoint has moved' +
-          (location ? ` to ${location}` : '') +
-          '. Update homebridge-notify-alerts to the latest version.',
-      );
-    }
+    try {
+      const data = await this.post(payload, target);
+      const groupFailed = typeof data.failureCount === 'number' && data.failureCount > 0;
+      const latencyMs = Date.now() - startedAt;
 
-    if (response.status !== 200) {
-      // Build a detailed error message for logging
-      let errorMessage = `API returned status ${response.status}: ${response.statusText}`;
+      this.reportDelivery(entry.id, !groupFailed);
+      this.platform.metrics?.recordSuccess(this.webhookConfig.name, latencyMs, data.failureCount);
+      this.platform.history?.record({
+        ...entry,
+        outcome: groupFailed ? 'partial' : 'sent',
+        status: data.status,
+        latencyMs,
+        deviceCount: data.deviceCount,
+        successCount: data.successCount,
+        failureCount: data.failureCount,
+      });
 
-      /**
-       * Append whatever detail the API gave us. The 'error' field often just
-       * repeats the HTTP status text ("Forbidden"), so it is skipped when it
-       * adds nothing, leaving the human-readable 'message' to do the work.
-       */
-      if (response.data) {
-        if (response.data.error && response.data.error !== response.statusText) {
-          errorMessage += ` - ${response.data.error}`;
-        }
-        if (response.data.message) {
-          errorMessage += ` - ${response.data.message}`;
-        }
+      return data;
+    } catch (error) {
+      const latencyMs = Date.now() - startedAt;
 
-        /**
-         * A delivery rejected by Apple comes back as a generic "Failed to
-         * send notification" with the real reason buried in apnsError. That
-         * reason is the only actionable part, so surface it. BadDeviceToken
-         * in particular means the device needs to be re-registered in the
-         * Notify app, which no amount of checking the config will fix.
-         */
-        const apnsReason = response.data.apnsError?.reason;
-        if (apnsReason) {
-          errorMessage += ` (Apple rejected the delivery: ${apnsReason})`;
-        }
+      this.reportDelivery(entry.id, false);
+      this.platform.metrics?.recordFailure(this.webhookConfig.name, errorCategory(error), latencyMs);
+      this.platform.history?.record({
+        ...entry,
+        outcome: 'failed',
+        status: errorStatus(error),
+        latencyMs,
+        error: describeError(error),
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Log, in full, the request a send would make. The token is shortened as
+   * in the debug log, wherever the provider puts it.
+   */
+  private logDryRun(payload: NotifyPayload, target?: NotifyTarget) {
+    const webhook = this.webhookConfig;
+    const { id, token } = target ?? webhook;
+    const provider = getProvider(webhook.provider)!;
+    const request = provider.request(payload, { id, token }, webhook, this.platform.providerContext);
+
+    let url = request.url;
+    try {
+      const parsed = new URL(request.url);
+      for (const [key, value] of Object.entries(request.params ?? {})) {
+        parsed.searchParams.set(key, value);
       }
+      url = parsed.toString();
+    } catch {
+      // Not a valid URL; the real send would fail on it too. Log it as is.
+    }
+
+    let text = [
+      `${request.method} ${url}`,
+      ...Object.entries(request.headers ?? {}).map(([name, value]) => `${name}: ${value}`),
+      '',
+      typeof request.data === 'string' ? request.data : JSON.stringify(request.data, null, 2),
+    ].join('\n');
 
-      throw new Error(errorMessage);
+    if (token) {
+      text = text.split(token).join(maskToken(token)).split(encodeURIComponent(token)).join(maskToken(token));
     }
 
+    const to = target?.label ? ` (${target.label})` : '';
+    this.platform.log.info(`[Dry run] Notification for ${webhook.name}${to} was not sent. Request via ${provider.name}:\n${text}`);
+  }
+
+  /**
+   * Update the fault state after a send attempt.
+   *
+   * Trips on a failed send or a group send where any member failed, and
+   * clears once every ID that failed has had a clean send since. Changes
+   * only are logged and pushed to HomeKit, so a webhook failing over and
+   * over does not flood either.
+   *
+   * @param id - The ID the attempt went to
+   * @param ok - Whether it was delivered in full
+   */
+  private reportDelivery(id: string, ok: boolean) {
+    const wasFailing = this.failingTargets.size > 0;
+
+    if (ok) {
+      this.failingTargets.delete(id);
+    } else {
+      this.failingTargets.add(id);
+    }
+
+    const failing = this.failingTargets.size > 0;
+    if (failing === wasFailing) {
+      return;
+    }
+
+    if (failing) {
+      this.platform.log.warn(`Notifications for ${this.webhookConfig.name} are failing; reporting a fault to HomeKit`);
+    } else {
+      this.platform.log.info(`Notifications for ${this.webhookConfig.name} are getting through again`);
+    }
+
+    const { StatusFault, ContactSensorState } = this.platform.Characteristic;
+    const fault = failing ? StatusFault.GENERAL_FAULT : StatusFault.NO_FAULT;
+
+    this.service.updateCharacteristic(StatusFault, fault);
+    this.faultSensor?.updateCharacteristic(StatusFault, fault);
+    this.faultSensor?.updateCharacteristic(
+      ContactSensorState,
+      failing ? ContactSensorState.CONTACT_NOT_DETECTED : ContactSensorState.CONTACT_DETECTED,
+    );
+
+    this.platform.reportDelivery(this.identity, failing);
+  }
+
+  /**
+   * The request itself, for sendNotification().
+   *
+   * The webhook's provider (see providers/) builds and sends the request
+   * and classifies any refusal; logging stays here so every provider reads
+   * the same way in the log.
+   */
+  private async post(payload: NotifyPayload, target?: NotifyTarget) {
+    const webhook = this.webhookConfig;
+    const { id, token } = target ?? webhook;
+
+    // Startup validation rejects unknown providers, so this cannot miss
+    const provider = getProvider(webhook.provider)!;
+
+    /**
+     * Debug logging
+     *
+     * Only appears when Homebridge runs in debug mode (-D). The token is
+     * truncated because Homebridge logs are routinely shared in bug reports.
+     */
+    this.platform.log.debug(`Sending notification via ${provider.name} to:`, id || webhook.providerUrl);
+    if (token) {
+      this.platform.log.debug('With token:', maskToken(token));
+    }
+    this.platform.log.debug('Payload:', JSON.stringify(payload, null, 2));
+
+    const data = await provider.send(payload, { id, token }, webhook, this.platform.providerContext);
+
     /**
      * Partial group failure detection
      *
@@ -590,11 +1483,11 @@ export class NotifyWebhookAccessory {
      * this check the log would report unqualified success while the
      * notification never reached part of the group.
      */
-    const data = response.data;
-    if (data && typeof data.failureCount === 'number' && data.failureCount > 0) {
+    if (typeof data.failureCount === 'number' && data.failureCount > 0) {
+      const to = target?.label ? ` (${target.label})` : '';
       this.platform.log.warn(
-        `Notification for ${this.webhookConfig.name} reached ` +
-          `${data.successCount ?? 0} of ${data.deviceCount ?? 'unknown'} devices in the group ` +
+        `Notification for ${webhook.name}${to} ` +
+          `reached ${describeReach(data.successCount ?? 0, data.deviceCount ?? 'unknown', 'devices in the group')} ` +
           `(${data.failureCount} failed)`,
       );
     }
@@ -605,8 +1498,26 @@ export class NotifyWebhookAccessory {
      * A group response enumerates every member device ID, which does not
      * belong in a log that users routinely paste into bug reports.
      */
-    this.platform.log.debug('Notification API response:', JSON.stringify(data));
+    this.platform.log.debug('Notification API response:', JSON.stringify(data.data));
 
     return data;
   }
 }
+
+/**
+ * "3 of 4 recipients", "2 of 3 devices in the group".
+ *
+ * Shared by the group partial-failure warning and the multi-recipient
+ * summary so the two read the same way in the log.
+ */
+function describeReach(reached: number, total: number | string, unit: string): string {
+  return `${reached} of ${total} ${unit}`;
+}
+
+/**
+ * Shorten a token for the log: enough to tell two tokens apart, not enough
+ * to use. Homebridge logs are routinely shared in bug reports.
+ */
+function maskToken(token: string): string {
+  return token.substring(0, Math.min(5, token.length)) + '...';
+}
@@ -0,0 +1,96 @@
+/**
+ * Export and import of webhooks through the settings UI server: a CSV
+ * export must import back as exactly what was exported, and no cell may
+ * reach a spreadsheet in a form it would run as a formula.
+ *
+ * Runs the real homebridge-ui/server.js, which loads the compiled plugin
+ * from dist/; `npm test` builds first.
+ */
+const { describe, test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startUiServer } = require('./uiServer');
+
+/**
+ * Text cells a spreadsheet would run, or that only look guarded already.
+ */
+const FORMULA_TEXT = [
+  '=HYPERLINK("https://evil.example","Open")',
+  '+1 555 0100',
+  '-5 degrees outside',
+  '@SUM(A1:A2)',
+  '\tIndented',
+  '\'=SUM(A1)',
+  '\'\'+1',
+];
+
+describe('webhook export and import', () => {
+  let server;
+
+  before(async () => {
+    server = await startUiServer();
+  });
+
+  after(() => server.close());
+
+  async function exportCsv(webhooks) {
+    const exported = await server.request('/export-webhooks', { webhooks, format: 'csv', includeTokens: true });
+    assert.equal(exported.success, true, exported.error);
+    return exported.content;
+  }
+
+  async function importCsv(content) {
+    const preview = await server.request('/preview-import', { content, format: 'csv', webhooks: [] });
+    assert.equal(preview.success, true, preview.error);
+    return preview.webhooks;
+  }
+
+  test('a CSV export imports back unchanged', async () => {
+    const webhooks = [
+      {
+        name: 'Front Door',
+        key: 'front-door',
+        token: 'TOKEN',
+        id: '12345678',
+        text: 'Someone is at the door, "again"',
+        title: 'Doorbell',
+        timeSensitive: true,
+        cooldownSeconds: 60,
+        variants: [{ text: 'Ding' }, { text: 'Dong', weight: 2 }],
+      },
+      { name: 'Plain', key: 'plain', token: 'TOKEN', id: 'GRP12345', text: 'Line one\nline two' },
+    ];
+
+    assert.deepEqual(await importCsv(await exportCsv(webhooks)), webhooks);
+  });
+
+  test('text that would run as a formula is exported with a leading apostrophe', async () => {
+    const webhooks = FORMULA_TEXT.map((text, index) => ({ name: `Webhook ${index + 1}`, text }));
+    const content = await exportCsv(webhooks);
+
+    const cells = content.split('\r\n').slice(1, -1).map((line) => line.slice(line.indexOf(',') + 1));
+    cells.forEach((cell) => {
+      const text = cell.startsWith('"') ? cell.slice(1) : cell;
+      assert.match(text, /^'/, `${cell} is not guarded`);
+    });
+  });
+
+  test('guarded text imports back exactly as it was, apostrophes included', async () => {
+    const webhooks = FORMULA_TEXT.map((text, index) => ({ name: `Webhook ${index + 1}`, text }));
+    assert.deepEqual(await importCsv(await exportCsv(webhooks)), webhooks);
+  });
+
+  test('an apostrophe that guards nothing is kept as it is', async () => {
+    const webhooks = [{ name: 'Quote', text: '\'Tis the season' }];
+    const content = await exportCsv(webhooks);
+    assert.ok(content.includes(',\'Tis the season\r\n'), content);
+    assert.deepEqual(await importCsv(content), webhooks);
+  });
+
+  test('numbers and booleans are not guarded, so a negative number stays a number', async () => {
+    const webhooks = [{ name: 'Numbers', text: 'Hi', cooldownSeconds: -1, timeSensitive: false }];
+    const content = await exportCsv(webhooks);
+    assert.doesNotMatch(content, /'-1/);
+    assert.deepEqual(await importCsv(content), webhooks);
+  });
+});
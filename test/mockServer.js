@@ -0,0 +1,72 @@
+/**
+ * A local stand-in for a delivery service, for the tests in this folder.
+ *
+ * Listens on port 0, so the system picks a free port, and answers every
+ * request with whatever the test's handler says. Each request is recorded
+ * with its parsed URL, headers and body, so a test can check exactly what
+ * was sent as well as how the answer was handled.
+ */
+const http = require('http');
+
+/**
+ * Start a mock server.
+ *
+ * @param {(request: Object) => Object|undefined} handler - Called for each
+ *   request with { method, url, headers, body }. Returns the answer as
+ *   { status, body, headers }, where an object body is sent as JSON. Return
+ *   undefined to never answer, for timeouts.
+ * @returns {Promise<{ url: string, requests: Object[], close: () => Promise<void> }>}
+ */
+async function startMockServer(handler) {
+  const requests = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      let body = raw;
+      try {
+        body = raw ? JSON.parse(raw) : undefined;
+      } catch {
+        // Not JSON: keep the text, as a template body may not be
+      }
+
+      const request = {
+        method: req.method,
+        url: new URL(req.url, 'http://localhost'),
+        headers: req.headers,
+        body,
+      };
+      requests.push(request);
+
+      const answer = handler(request);
+      if (!answer) {
+        return;
+      }
+
+      const headers = Object.assign({}, answer.headers);
+      let payload = answer.body;
+      if (payload !== undefined && typeof payload !== 'string') {
+        payload = JSON.stringify(payload);
+        headers['Content-Type'] = 'application/json';
+      }
+      res.writeHead(answer.status || 200, headers);
+      res.end(payload);
+    });
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    requests,
+    close: () => {
+      // Drop requests a timeout test left hanging, or close() never returns
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+module.exports = { startMockServer };
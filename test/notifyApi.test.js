@@ -0,0 +1,215 @@
+/**
+ * NotifyApiClient against a mock Notify API: the requests it makes, how it
+ * reads the answers, and how each kind of failure is categorised. These are
+ * the code paths the switches and the settings UI's Test and Verify buttons
+ * share, so a change that breaks one shows up here.
+ *
+ * Runs against the compiled client in dist/; `npm test` builds first.
+ */
+const { describe, test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { NotifyApiClient } = require('../dist/notifyApi');
+const { NotifyApiError, errorCategory, isRetryableError } = require('../dist/errors');
+const { startMockServer } = require('./mockServer');
+
+/**
+ * Answers keyed by the ID a test sends to, so each test picks its case.
+ */
+const SEND_ANSWERS = {
+  DEVICE1: { status: 200, body: { success: true, type: 'device', deviceId: 'DEVICE1' } },
+  GROUP1: {
+    status: 200,
+    body: { success: true, type: 'group', groupId: 'GROUP1', deviceCount: 3, successCount: 2, failureCount: 1 },
+  },
+  BADREQ: { status: 400, body: { error: 'Bad Request', message: 'Missing text' } },
+  BADTOKEN: { status: 403, body: { error: 'Forbidden', message: 'Invalid token' } },
+  MISSING: { status: 404, body: { error: 'Not Found' } },
+  LIMITED: { status: 429, body: { error: 'Too Many Requests' } },
+  BROKEN: { status: 500, body: { error: 'Internal Server Error' } },
+  UNAVAILABLE: { status: 503, body: 'Service Unavailable' },
+  MOVED: { status: 301, headers: { Location: 'https://elsewhere.example/notify-json/MOVED' } },
+  APNS: {
+    status: 400,
+    body: { error: 'Bad Request', message: 'Failed to send notification', apnsError: { reason: 'BadDeviceToken' } },
+  },
+};
+
+const LINK_ANSWERS = {
+  DEVICE1: {
+    status: 200,
+    body: { success: true, type: 'device', id: 'DEVICE1', name: 'iPhone Air', platform: 'iOS', os_version: '26.1' },
+  },
+  GROUP1: {
+    status: 200,
+    body: { success: true, type: 'group', group: { id: 'GROUP1', name: 'Family', member_count: 3 } },
+  },
+  BARE: { status: 200, body: { success: true } },
+  MISSING: { status: 404, body: { error: 'Not Found' } },
+  BADTOKEN: { status: 403, body: { error: 'Forbidden', message: 'Invalid token' } },
+};
+
+describe('NotifyApiClient', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startMockServer((request) => {
+      if (request.url.pathname === '/link') {
+        return LINK_ANSWERS[request.url.searchParams.get('id')];
+      }
+      const id = decodeURIComponent(request.url.pathname.replace('/notify-json/', ''));
+      return SEND_ANSWERS[id] || { status: 200, body: { success: true, type: 'device' } };
+    });
+    client = new NotifyApiClient({ baseUrl: server.url });
+  });
+
+  after(() => server.close());
+
+  /**
+   * The error a send to this ID throws.
+   */
+  async function sendError(id) {
+    try {
+      await client.send(id, 'TOKEN', { text: 'Hello' });
+    } catch (error) {
+      return error;
+    }
+    assert.fail(`A send to ${id} did not throw`);
+  }
+
+  describe('send', () => {
+    test('posts the payload as JSON with the token in the query string', async () => {
+      const payload = { text: 'Door opened', title: 'Alert', timeSensitive: true };
+      await client.send('DEVICE1', 'SECRET TOKEN', payload);
+
+      const request = server.requests.at(-1);
+      assert.equal(request.method, 'POST');
+      assert.equal(request.url.pathname, '/notify-json/DEVICE1');
+      assert.equal(request.url.searchParams.get('token'), 'SECRET TOKEN');
+      assert.match(request.headers['content-type'], /^application\/json/);
+      assert.deepEqual(request.body, payload);
+    });
+
+    test('URL-encodes the ID, which goes in the path', async () => {
+      await client.send('ID WITH/SLASH', 'TOKEN', { text: 'Hello' });
+      assert.equal(server.requests.at(-1).url.pathname, '/notify-json/ID%20WITH%2FSLASH');
+    });
+
+    test('reports a device send', async () => {
+      const result = await client.send('DEVICE1', 'TOKEN', { text: 'Hello' });
+      assert.equal(result.type, 'device');
+      assert.equal(result.status, 200);
+      assert.equal(result.deviceCount, undefined);
+    });
+
+    test('reports per-device counts for a group send', async () => {
+      const result = await client.send('GROUP1', 'TOKEN', { text: 'Hello' });
+      assert.equal(result.type, 'group');
+      assert.equal(result.deviceCount, 3);
+      assert.equal(result.successCount, 2);
+      assert.equal(result.failureCount, 1);
+    });
+  });
+
+  describe('link', () => {
+    test('resolves a device, in the flat shape the live API returns', async () => {
+      const result = await client.link('DEVICE1', 'TOKEN');
+      assert.deepEqual(result, { type: 'device', name: 'iPhone Air', detail: 'Device running iOS 26.1' });
+
+      const request = server.requests.at(-1);
+      assert.equal(request.method, 'GET');
+      assert.equal(request.url.searchParams.get('token'), 'TOKEN');
+    });
+
+    test('resolves a group, in the nested shape the documentation shows', async () => {
+      const result = await client.link('GROUP1', 'TOKEN');
+      assert.deepEqual(result, { type: 'group', name: 'Family', detail: 'Group with 3 devices', memberCount: 3 });
+    });
+
+    test('accepts a success that names nothing', async () => {
+      const result = await client.link('BARE', 'TOKEN');
+      assert.equal(result.type, 'unknown');
+    });
+
+    test('throws a not-found error when nothing matches', async () => {
+      await assert.rejects(client.link('MISSING', 'TOKEN'), (error) => {
+        assert.ok(error instanceof NotifyApiError);
+        assert.equal(errorCategory(error), 'not-found');
+        return true;
+      });
+    });
+
+    test('throws an auth error for a wrong token', async () => {
+      await assert.rejects(client.link('BADTOKEN', 'TOKEN'), (error) => errorCategory(error) === 'auth');
+    });
+  });
+
+  describe('error categories', () => {
+    const cases = [
+      { id: 'BADREQ', category: 'invalid', status: 400, retryable: false },
+      { id: 'BADTOKEN', category: 'auth', status: 403, retryable: false },
+      { id: 'MISSING', category: 'not-found', status: 404, retryable: false },
+      { id: 'LIMITED', category: 'rate-limited', status: 429, retryable: true },
+      { id: 'BROKEN', category: 'server', status: 500, retryable: true },
+      { id: 'UNAVAILABLE', category: 'server', status: 503, retryable: true },
+      { id: 'MOVED', category: 'moved', status: 301, retryable: false },
+    ];
+
+    for (const { id, category, status, retryable } of cases) {
+      test(`HTTP ${status} is ${category} and ${retryable ? '' : 'not '}retried`, async () => {
+        const error = await sendError(id);
+        assert.equal(errorCategory(error), category);
+        assert.equal(isRetryableError(error), retryable);
+      });
+    }
+
+    test('4xx refusals carry the API\'s own explanation', async () => {
+      const error = await sendError('BADTOKEN');
+      assert.ok(error instanceof NotifyApiError);
+      assert.equal(error.status, 403);
+      assert.match(error.message, /Invalid token/);
+    });
+
+    test('a redirect is reported as moved, naming the new location, and not followed', async () => {
+      const before = server.requests.length;
+      const error = await sendError('MOVED');
+      assert.match(error.message, /moved to https:\/\/elsewhere\.example/);
+      assert.equal(server.requests.length, before + 1);
+    });
+
+    test('an Apple rejection is apns, with the reason', async () => {
+      const error = await sendError('APNS');
+      assert.equal(errorCategory(error), 'apns');
+      assert.equal(error.apnsReason, 'BadDeviceToken');
+      assert.match(error.message, /BadDeviceToken/);
+      assert.equal(isRetryableError(error), false);
+    });
+
+    test('no answer within the time limit is a timeout, and retried', async () => {
+      const silent = await startMockServer(() => undefined);
+      try {
+        const impatient = new NotifyApiClient({ baseUrl: silent.url, timeoutMs: 100 });
+        await assert.rejects(impatient.send('DEVICE1', 'TOKEN', { text: 'Hello' }), (error) => {
+          assert.equal(errorCategory(error), 'timeout');
+          assert.equal(isRetryableError(error), true);
+          return true;
+        });
+      } finally {
+        await silent.close();
+      }
+    });
+
+    test('a refused connection is a network error, and retried', async () => {
+      const gone = await startMockServer(() => undefined);
+      await gone.close();
+
+      const unreachable = new NotifyApiClient({ baseUrl: gone.url });
+      await assert.rejects(unreachable.send('DEVICE1', 'TOKEN', { text: 'Hello' }), (error) => {
+        assert.equal(errorCategory(error), 'network');
+        assert.equal(isRetryableError(error), true);
+        return true;
+      });
+    });
+  });
+});
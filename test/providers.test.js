@@ -0,0 +1,210 @@
+/**
+ * Each delivery provider against a mock of its service: how the rendered
+ * notification is mapped onto the service's request, and how the answer is
+ * classified, since that decides between "sent", "retry later" and "give
+ * up" for every trigger.
+ *
+ * Runs against the compiled providers in dist/; `npm test` builds first.
+ */
+const { describe, test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { getProvider, PROVIDER_NAMES } = require('../dist/providers');
+const { NotifyApiClient } = require('../dist/notifyApi');
+const { NetworkTransport } = require('../dist/network');
+const { NotifyApiError, errorCategory, isRetryableError } = require('../dist/errors');
+const { startMockServer } = require('./mockServer');
+
+const PAYLOAD = {
+  text: 'Garage left open',
+  title: 'House',
+  iconUrl: 'https://example.com/icon.png',
+  imageUrl: 'https://example.com/garage.jpg',
+  groupType: 'doors',
+  timeSensitive: true,
+};
+
+describe('delivery providers', () => {
+  let server;
+  let answer;
+  let context;
+
+  before(async () => {
+    server = await startMockServer(() => answer);
+    context = {
+      notifyApi: new NotifyApiClient({ baseUrl: server.url }),
+      transport: new NetworkTransport(),
+    };
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    answer = { status: 200, body: {} };
+  });
+
+  /**
+   * Send through a provider and return the request the mock received,
+   * with the result or the error.
+   */
+  async function send(name, webhook, target = { id: 'TARGET', token: 'TOKEN' }) {
+    const provider = getProvider(name);
+    const config = Object.assign({ name: 'Garage', provider: name, providerUrl: server.url }, webhook);
+
+    let result;
+    let error;
+    try {
+      result = await provider.send(PAYLOAD, target, config, context);
+    } catch (thrown) {
+      error = thrown;
+    }
+    return { request: server.requests.at(-1), result, error };
+  }
+
+  test('every provider is registered, and unknown names are not', () => {
+    assert.deepEqual(PROVIDER_NAMES.sort(), ['http', 'notify', 'ntfy', 'pushover']);
+    assert.equal(getProvider(undefined).name, 'notify');
+    assert.equal(getProvider('toString'), undefined);
+    assert.equal(getProvider('telegram'), undefined);
+  });
+
+  describe('notify', () => {
+    test('sends the payload unchanged through the shared client', async () => {
+      answer = { status: 200, body: { success: true, type: 'group', deviceCount: 2, successCount: 2, failureCount: 0 } };
+      const { request, result } = await send('notify', { providerUrl: undefined });
+
+      assert.equal(request.url.pathname, '/notify-json/TARGET');
+      assert.equal(request.url.searchParams.get('token'), 'TOKEN');
+      assert.deepEqual(request.body, PAYLOAD);
+      assert.equal(result.status, 200);
+      assert.equal(result.deviceCount, 2);
+      assert.equal(result.failureCount, 0);
+    });
+
+    test('a 403 is an auth error', async () => {
+      answer = { status: 403, body: { error: 'Forbidden', message: 'Invalid token' } };
+      const { error } = await send('notify', {});
+      assert.equal(errorCategory(error), 'auth');
+      assert.equal(isRetryableError(error), false);
+    });
+  });
+
+  describe('ntfy', () => {
+    test('publishes as JSON to the server root, naming the topic', async () => {
+      const { request, result } = await send('ntfy', {}, { id: 'garage-topic', token: 'tk_access' });
+
+      assert.equal(request.method, 'POST');
+      assert.equal(request.url.pathname, '/');
+      assert.equal(request.headers.authorization, 'Bearer tk_access');
+      assert.deepEqual(request.body, {
+        topic: 'garage-topic',
+        message: PAYLOAD.text,
+        title: PAYLOAD.title,
+        attach: PAYLOAD.imageUrl,
+        icon: PAYLOAD.iconUrl,
+        priority: 5,
+      });
+      assert.equal(result.status, 200);
+    });
+
+    test('sends no Authorization header without an access token', async () => {
+      const { request } = await send('ntfy', {}, { id: 'open-topic', token: '' });
+      assert.equal(request.headers.authorization, undefined);
+    });
+
+    test('a 429 is rate-limited and retried; a 403 is auth and not', async () => {
+      answer = { status: 429, body: { code: 42901, http: 429, error: 'limit reached' } };
+      let { error } = await send('ntfy', {});
+      assert.equal(errorCategory(error), 'rate-limited');
+      assert.equal(isRetryableError(error), true);
+
+      answer = { status: 403, body: { code: 40301, http: 403, error: 'forbidden' } };
+      ({ error } = await send('ntfy', {}));
+      assert.equal(errorCategory(error), 'auth');
+      assert.equal(isRetryableError(error), false);
+      assert.match(error.message, /forbidden/);
+    });
+  });
+
+  describe('pushover', () => {
+    test('sends the token and user key in the body', async () => {
+      answer = { status: 200, body: { status: 1, request: 'abc' } };
+      const { request, result } = await send('pushover', {}, { id: 'uKEY', token: 'aTOKEN' });
+
+      assert.deepEqual(request.body, {
+        token: 'aTOKEN',
+        user: 'uKEY',
+        message: PAYLOAD.text,
+        title: PAYLOAD.title,
+        url: PAYLOAD.imageUrl,
+        url_title: 'Image',
+        priority: 1,
+      });
+      assert.equal(result.status, 200);
+    });
+
+    test('a 200 without status 1 is still a failure', async () => {
+      answer = { status: 200, body: { status: 0, errors: ['user key is invalid'] } };
+      const { error } = await send('pushover', {});
+      assert.ok(error instanceof NotifyApiError);
+      assert.match(error.message, /user key is invalid/);
+    });
+
+    test('a 429 is not retried, since it means the monthly quota is spent', async () => {
+      answer = { status: 429, body: { status: 0, errors: ['quota exceeded'] } };
+      const { error } = await send('pushover', {});
+      assert.equal(errorCategory(error), 'rate-limited');
+      assert.equal(isRetryableError(error), false);
+    });
+  });
+
+  describe('http', () => {
+    test('sends the payload and the webhook name as JSON by default', async () => {
+      const { request } = await send('http', {});
+      assert.equal(request.method, 'POST');
+      assert.deepEqual(request.body, Object.assign({}, PAYLOAD, { name: 'Garage' }));
+    });
+
+    test('renders the body template, escaping values, with the method and headers given', async () => {
+      const { request } = await send('http', {
+        httpMethod: 'PUT',
+        httpHeaders: [{ name: 'X-Api-Key', value: 'key-123' }],
+        httpBody: '{"content": "{{title}}: {{text}}", "from": "{{name}}", "unknown": "{{nope}}"}',
+        name: 'Say "hi"',
+      });
+
+      assert.equal(request.method, 'PUT');
+      assert.equal(request.headers['x-api-key'], 'key-123');
+      assert.deepEqual(request.body, {
+        content: 'House: Garage left open',
+        from: 'Say "hi"',
+        unknown: '{{nope}}',
+      });
+    });
+
+    test('any 2xx is success, and its status is reported', async () => {
+      answer = { status: 204 };
+      const { result, error } = await send('http', {});
+      assert.equal(error, undefined);
+      assert.equal(result.status, 204);
+    });
+
+    const cases = [
+      { status: 400, category: 'invalid', retryable: false },
+      { status: 401, category: 'auth', retryable: false },
+      { status: 408, category: 'invalid', retryable: true },
+      { status: 429, category: 'rate-limited', retryable: true },
+      { status: 500, category: 'server', retryable: true },
+      { status: 302, category: 'moved', retryable: false },
+    ];
+
+    for (const { status, category, retryable } of cases) {
+      test(`HTTP ${status} is ${category} and ${retryable ? '' : 'not '}retried`, async () => {
+        answer = { status, body: { message: 'nope' }, headers: status === 302 ? { Location: '/elsewhere' } : {} };
+        const { error } = await send('http', {});
+        assert.equal(errorCategory(error), category);
+        assert.equal(isRetryableError(error), retryable);
+      });
+    }
+  });
+});
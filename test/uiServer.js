@@ -0,0 +1,54 @@
+/**
+ * The settings UI server (homebridge-ui/server.js), run the way the
+ * Homebridge UI runs it: as a child process that answers requests sent
+ * over IPC. The routes are then tested through the same messages the
+ * settings page's window.homebridge.request() produces.
+ */
+const path = require('path');
+const { fork } = require('child_process');
+
+const SERVER_PATH = path.join(__dirname, '..', 'homebridge-ui', 'server.js');
+
+/**
+ * Start the UI server and wait until it reports ready.
+ *
+ * @param {Object} [env] - Extra environment, such as HOMEBRIDGE_STORAGE_PATH
+ * @returns {Promise<{ request: (path: string, body?: Object) => Promise<Object>, close: () => Promise<void> }>}
+ */
+async function startUiServer(env = {}) {
+  const child = fork(SERVER_PATH, [], {
+    env: Object.assign({}, process.env, env),
+    stdio: ['ignore', 'ignore', 'inherit', 'ipc'],
+  });
+
+  const pending = new Map();
+  let nextId = 0;
+
+  await new Promise((resolve, reject) => {
+    child.once('error', reject);
+    child.once('exit', (code) => reject(new Error(`The UI server exited with code ${code}`)));
+    child.on('message', (message) => {
+      if (message.action === 'ready') {
+        resolve();
+      } else if (message.action === 'response' && pending.has(message.payload.requestId)) {
+        pending.get(message.payload.requestId)(message.payload.data);
+        pending.delete(message.payload.requestId);
+      }
+    });
+  });
+
+  return {
+    request: (route, body) => new Promise((resolve) => {
+      const requestId = String(++nextId);
+      pending.set(requestId, resolve);
+      child.send({ action: 'request', requestId, path: route, body });
+    }),
+    close: () => new Promise((resolve) => {
+      child.removeAllListeners('exit');
+      child.once('exit', () => resolve());
+      child.kill();
+    }),
+  };
+}
+
+module.exports = { startUiServer };
@@ -0,0 +1,102 @@
+/**
+ * StartupChecks: the checks that decide whether discoverDevices() sets a
+ * webhook up, skips it, or keeps its switch inert. The settings UI server
+ * shows the same verdicts through /validate-config, so both are tested
+ * here against the same cases.
+ *
+ * Runs against the compiled checks in dist/; `npm test` builds first.
+ */
+const { describe, test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { StartupChecks } = require('../dist/validation');
+const { startUiServer } = require('./uiServer');
+
+const PROFILES = [
+  { name: 'Home', id: '12345678', token: 'PROFILE-TOKEN' },
+  { name: 'Half', id: '87654321' },
+];
+
+/**
+ * One webhook per case, in config order, with the verdict expected for it.
+ */
+const CASES = [
+  { webhook: { text: 'Hi', token: 'T', id: '12345678' }, claimed: false, problem: /missing name/ },
+  { webhook: { name: 'Door', key: 'door', text: 'Hi', profile: 'Home' }, claimed: true, ready: true },
+  { webhook: { name: 'Door', key: 'other', text: 'Hi', token: 'T', id: '12345678' }, claimed: false, problem: /same name/ },
+  { webhook: { name: 'Hall', key: 'door', text: 'Hi', token: 'T', id: '12345678' }, claimed: false, problem: /same key/ },
+  { webhook: { name: 'Parked', enabled: false, profile: 'Missing' }, claimed: true, disabled: true },
+  { webhook: { name: 'Dangling', text: 'Hi', profile: 'Missing' }, claimed: true, problem: /profile "Missing", which is not defined/ },
+  { webhook: { name: 'Partial', text: 'Hi', profile: 'Half' }, claimed: true, problem: /profile "Half", which is not defined/ },
+  { webhook: { name: 'No token', text: 'Hi', id: '12345678' }, claimed: true, problem: /missing token/ },
+];
+
+describe('StartupChecks', () => {
+  test('reports profiles that are left out', () => {
+    const checks = new StartupChecks([...PROFILES, { id: 'x', token: 'y' }, PROFILES[0]]);
+    assert.deepEqual(checks.profileNotices.map(notice => notice.severity), ['error', 'warning', 'warning']);
+    assert.match(checks.profileNotices[0].message, /"Half" needs both an id and a token/);
+  });
+
+  test('gives each webhook the verdict discoverDevices() acts on, in config order', () => {
+    const checks = new StartupChecks(PROFILES);
+
+    for (const { webhook, claimed, ready, disabled, problem } of CASES) {
+      const verdict = checks.check(webhook);
+      assert.equal(verdict.identity !== undefined, claimed, webhook.name);
+      assert.equal(verdict.webhook !== undefined, ready === true, webhook.name);
+      assert.equal(verdict.disabled === true, disabled === true, webhook.name);
+      if (problem) {
+        assert.match(verdict.problem.message, problem);
+      } else {
+        assert.equal(verdict.problem, undefined, webhook.name);
+      }
+    }
+  });
+
+  test('fills in id and token from a profile, keeping values set on the webhook', () => {
+    const checks = new StartupChecks(PROFILES);
+    const verdict = checks.check({ name: 'Door', text: 'Hi', profile: 'Home', id: '11112222' });
+    assert.equal(verdict.webhook.id, '11112222');
+    assert.equal(verdict.webhook.token, 'PROFILE-TOKEN');
+  });
+
+  test('drops only the recipient whose profile is missing', () => {
+    const checks = new StartupChecks(PROFILES);
+    const verdict = checks.check({
+      name: 'Door',
+      text: 'Hi',
+      token: 'T',
+      id: '12345678',
+      recipients: [{ profile: 'Home' }, { profile: 'Missing' }, { id: '33334444' }],
+    });
+    assert.deepEqual(verdict.webhook.recipients.map(recipient => recipient.id), ['12345678', '33334444']);
+    assert.equal(verdict.notices.length, 1);
+    assert.match(verdict.notices[0].message, /uses profile "Missing"/);
+  });
+
+  describe('through the settings UI server', () => {
+    let server;
+
+    before(async () => {
+      server = await startUiServer();
+    });
+
+    after(() => server.close());
+
+    test('/validate-config reports the same problems, profiles included', async () => {
+      const webhooks = CASES.map(({ webhook }) => webhook);
+      const response = await server.request('/validate-config', { webhooks, profiles: PROFILES, setup: true });
+      assert.equal(response.success, true, response.error);
+
+      const problems = new Map(response.webhooks.map(entry => [entry.index, entry.problem]));
+      CASES.forEach(({ problem }, index) => {
+        if (problem) {
+          assert.match(problems.get(index).message, problem);
+        } else {
+          assert.equal(problems.get(index), undefined);
+        }
+      });
+    });
+  });
+});